@@ -0,0 +1,37 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AdminGuard } from './admin.guard';
+
+describe('AdminGuard', () => {
+  const guard = new AdminGuard();
+  const context = (authorization?: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: { authorization } }),
+      }),
+    }) as ExecutionContext;
+
+  afterEach(() => {
+    delete process.env.ADMIN_TOKEN;
+  });
+
+  it('should deny every request without an ADMIN_TOKEN configured', () => {
+    expect(() => guard.canActivate(context())).toThrow(ForbiddenException);
+  });
+
+  it('should only allow the configured bearer token', () => {
+    process.env.ADMIN_TOKEN = 'secret';
+
+    expect(guard.canActivate(context('Bearer secret'))).toBe(true);
+    expect(() => guard.canActivate(context('Bearer wrong'))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guard.canActivate(context('Bearer secret2'))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guard.canActivate(context())).toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+/**
+ * Protects admin routes with `Authorization: Bearer <ADMIN_TOKEN>`
+ * Without an ADMIN_TOKEN configured, admin routes are disabled
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token) {
+      throw new ForbiddenException(
+        'Admin routes are disabled: ADMIN_TOKEN is not set',
+      );
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    if (!matchesToken(request.headers.authorization, `Bearer ${token}`)) {
+      throw new UnauthorizedException('Invalid admin token');
+    }
+    return true;
+  }
+}
+
+/**
+ * Compare in constant time, so response times don't reveal how much of the token matched
+ */
+function matchesToken(received: string | undefined, expected: string) {
+  const receivedBuffer = Buffer.from(received ?? '');
+  const expectedBuffer = Buffer.from(expected);
+  return (
+    receivedBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(receivedBuffer, expectedBuffer)
+  );
+}
@@ -1,6 +1,18 @@
+import { BadRequestException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { ScraperService } from './scraper/scraper.service';
+import { PriceHistoryService } from './scraper/price-history.service';
+import { SpotPriceService } from './scraper/spot-price.service';
+import { PriceQuoteService } from './scraper/price-quote.service';
+import { ProductCatalogService } from './scraper/product-catalog.service';
+import { VendorRegistryService } from './scraper/vendor-registry.service';
+import { VendorHealthService } from './scraper/vendor-health.service';
+import { ScrapeEventsService } from './scraper/scrape-events.service';
+import { ScrapeJobService } from './scraper/scrape-job.service';
+import { ScrapeSchedulerService } from './scraper/scrape-scheduler.service';
+import { Metal } from './scraper/interfaces/price.interface';
 
 describe('AppController', () => {
   let appController: AppController;
@@ -8,7 +20,19 @@ describe('AppController', () => {
   beforeEach(async () => {
     const app: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        AppService,
+        { provide: ScraperService, useValue: {} },
+        { provide: PriceHistoryService, useValue: {} },
+        { provide: SpotPriceService, useValue: {} },
+        { provide: PriceQuoteService, useValue: {} },
+        { provide: ProductCatalogService, useValue: {} },
+        { provide: VendorRegistryService, useValue: {} },
+        { provide: VendorHealthService, useValue: {} },
+        { provide: ScrapeEventsService, useValue: {} },
+        { provide: ScrapeJobService, useValue: {} },
+        { provide: ScrapeSchedulerService, useValue: {} },
+      ],
     }).compile();
 
     appController = app.get<AppController>(AppController);
@@ -19,4 +43,12 @@ describe('AppController', () => {
       expect(appController.getHello()).toBe('Hello World!');
     });
   });
+
+  describe('prices', () => {
+    it('should reject an unknown metal', async () => {
+      await expect(appController.getPrices('copper' as Metal)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
 });
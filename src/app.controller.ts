@@ -1,13 +1,63 @@
-import { Controller, Get, Post, Param } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  MessageEvent,
+  NotFoundException,
+  Post,
+  Put,
+  Param,
+  Query,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
 import { AppService } from './app.service';
-import { ScraperService, ScrapingProgress } from './scraper/scraper.service';
-import { VendorPriceData, ScraperResult } from './scraper/interfaces/price.interface';
+import { AdminGuard } from './admin.guard';
+import { ScraperService } from './scraper/scraper.service';
+import { PriceHistoryService } from './scraper/price-history.service';
+import { SpotPriceService } from './scraper/spot-price.service';
+import { PriceQuoteService } from './scraper/price-quote.service';
+import { ProductCatalogService } from './scraper/product-catalog.service';
+import { VendorRegistryService } from './scraper/vendor-registry.service';
+import { VendorHealthService } from './scraper/vendor-health.service';
+import { ScrapeEventsService } from './scraper/scrape-events.service';
+import { ScrapeJobService } from './scraper/scrape-job.service';
+import { ScrapeSchedulerService } from './scraper/scrape-scheduler.service';
+import { VendorPriceStatus } from './scraper/interfaces/price.interface';
+import { PriceHistorySeries } from './scraper/interfaces/price-history.interface';
+import { SpotPrice } from './scraper/interfaces/spot-price.interface';
+import { PriceQuote } from './scraper/interfaces/price-quote.interface';
+import {
+  CanonicalProduct,
+  ProductOffers,
+} from './scraper/interfaces/product-catalog.interface';
+import { VendorInfo } from './scraper/interfaces/vendor-config.interface';
+import { VendorHealth } from './scraper/interfaces/vendor-health.interface';
+import { ScrapeJob } from './scraper/interfaces/scrape-job.interface';
+import { ScrapingProgress } from './scraper/interfaces/progress.interface';
+import {
+  SchedulePolicy,
+  VendorSchedule,
+} from './scraper/interfaces/schedule.interface';
+import { Metal, METALS } from './scraper/interfaces/price.interface';
 
 @Controller()
 export class AppController {
   constructor(
     private readonly appService: AppService,
     private readonly scraperService: ScraperService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly spotPriceService: SpotPriceService,
+    private readonly priceQuoteService: PriceQuoteService,
+    private readonly productCatalogService: ProductCatalogService,
+    private readonly vendorRegistry: VendorRegistryService,
+    private readonly vendorHealth: VendorHealthService,
+    private readonly scrapeJobs: ScrapeJobService,
+    private readonly scrapeEvents: ScrapeEventsService,
+    private readonly scrapeScheduler: ScrapeSchedulerService,
   ) {}
 
   @Get()
@@ -16,26 +66,99 @@ export class AppController {
   }
 
   @Get('api/prices')
-  async getPrices(): Promise<VendorPriceData[]> {
-    const prices = this.scraperService.getCurrentPrices();
+  async getPrices(
+    @Query('metal') metal?: Metal,
+    @Query('stale') stale = 'include',
+  ): Promise<VendorPriceStatus[]> {
+    if (metal && !METALS.includes(metal)) {
+      throw new BadRequestException(`Unknown metal: ${metal}`);
+    }
+    if (stale !== 'include' && stale !== 'exclude') {
+      throw new BadRequestException('stale must be include or exclude');
+    }
+    // Vendors whose last good snapshot is too old or whose scrapes keep failing are marked stale
+    const prices = this.scraperService.getPricesWithFreshness(
+      stale === 'include',
+    );
     // If no cached prices, return empty array instead of error
-    return prices || [];
+    if (!prices) return [];
+    if (!metal) return prices;
+
+    return prices.map((data) => ({
+      ...data,
+      prices: data.prices.filter((entry) => entry.metal === metal),
+    }));
+  }
+
+  @Get('api/prices/history')
+  async getPriceHistory(
+    @Query('vendor') vendor?: string,
+    @Query('product') product?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('interval') interval = '1h',
+  ): Promise<PriceHistorySeries[]> {
+    if (!PriceHistoryService.isInterval(interval)) {
+      throw new BadRequestException(`Unsupported interval: ${interval}`);
+    }
+
+    // Default range: last day for hourly candles, last 30 days for daily
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from
+      ? new Date(from)
+      : new Date(toDate.getTime() - (interval === '1h' ? 1 : 30) * 86400000);
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      throw new BadRequestException('Invalid from/to date');
+    }
+
+    return this.priceHistoryService.getHistory(
+      { vendor, product, from: fromDate, to: toDate },
+      interval,
+    );
+  }
+
+  @Get('api/prices/quote')
+  getPriceQuote(
+    @Query('product') product?: string,
+    @Query('quantity') quantity = '1',
+    @Query('vendor') vendor?: string,
+  ): PriceQuote[] {
+    const parsedQuantity = Number(quantity);
+    if (!product) {
+      throw new BadRequestException('product is required');
+    }
+    if (!Number.isInteger(parsedQuantity) || parsedQuantity < 1) {
+      throw new BadRequestException('quantity must be a positive integer');
+    }
+
+    return this.priceQuoteService.getQuotes(product, parsedQuantity, vendor);
   }
 
   @Post('api/prices/refresh')
-  async refreshPrices(): Promise<VendorPriceData[]> {
-    // Start scraping in background (don't await)
-    this.scraperService.scrapeAll().catch((error) => {
-      console.error('Scraping error:', error);
-    });
-    return this.scraperService.getCurrentPrices();
+  refreshPrices(): ScrapeJob {
+    // Queue a scrape of all vendors, follow it with GET api/jobs/:id
+    return this.scrapeJobs.enqueue();
   }
 
   @Post('api/prices/refresh/:vendor')
-  async refreshSingleVendor(@Param('vendor') vendor: string): Promise<ScraperResult> {
-    // Scrape single vendor (await to return result)
-    const result = await this.scraperService.scrapeSingleVendor(vendor);
-    return result;
+  refreshSingleVendor(@Param('vendor') vendor: string): ScrapeJob {
+    // Vendor by ID or name
+    return this.scrapeJobs.enqueue([vendor]);
+  }
+
+  @Get('api/jobs')
+  getJobs(): ScrapeJob[] {
+    return this.scrapeJobs.getJobs();
+  }
+
+  @Get('api/jobs/:id')
+  getJob(@Param('id') id: string): ScrapeJob {
+    return this.scrapeJobs.getJob(id);
+  }
+
+  @Delete('api/jobs/:id')
+  cancelJob(@Param('id') id: string): ScrapeJob {
+    return this.scrapeJobs.cancel(id);
   }
 
   @Get('api/prices/progress')
@@ -45,4 +168,94 @@ export class AppController {
       progress: this.scraperService.getScrapingProgress(),
     };
   }
+
+  @Sse('api/stream')
+  stream(
+    @Query('vendor') vendor?: string,
+    @Query('product') product?: string,
+  ): Observable<MessageEvent> {
+    // Progress, vendor completion and new price snapshots as they happen
+    return this.scrapeEvents
+      .stream({ vendor, product })
+      .pipe(map((event) => ({ type: event.type, data: event })));
+  }
+
+  @Get('api/vendors')
+  getVendors(): VendorInfo[] {
+    return this.vendorRegistry.getVendors();
+  }
+
+  @Get('api/vendors/health')
+  getVendorHealth(): VendorHealth[] {
+    // Circuit state per vendor; open vendors are skipped until nextRetryAt
+    return this.vendorHealth.getHealth();
+  }
+
+  @Get('api/products')
+  getProducts(): CanonicalProduct[] {
+    return this.productCatalogService.getProducts();
+  }
+
+  @Get('api/products/:id/offers')
+  getProductOffers(@Param('id') id: string): ProductOffers {
+    const offers = this.productCatalogService.getOffers(
+      id,
+      this.scraperService.getCurrentPrices(),
+    );
+    if (!offers) {
+      throw new NotFoundException(`Product not found: ${id}`);
+    }
+    return offers;
+  }
+
+  @Get('api/spot')
+  getSpotPrices(): SpotPrice[] {
+    return this.spotPriceService.getCurrentSpotPrices();
+  }
+
+  @Get('api/spot/history')
+  async getSpotHistory(
+    @Query('metal') metal?: Metal,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<SpotPrice[]> {
+    if (metal && !METALS.includes(metal)) {
+      throw new BadRequestException(`Unknown metal: ${metal}`);
+    }
+    // Default range: last 30 days
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from
+      ? new Date(from)
+      : new Date(toDate.getTime() - 30 * 86400000);
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      throw new BadRequestException('Invalid from/to date');
+    }
+
+    return this.spotPriceService.getSpotHistory({
+      metal,
+      from: fromDate,
+      to: toDate,
+    });
+  }
+
+  @Get('api/admin/schedules')
+  @UseGuards(AdminGuard)
+  getSchedules(): VendorSchedule[] {
+    return this.scrapeScheduler.getSchedules();
+  }
+
+  @Put('api/admin/schedules/:vendor')
+  @UseGuards(AdminGuard)
+  updateSchedule(
+    @Param('vendor') vendor: string,
+    @Body() changes: Partial<SchedulePolicy>,
+  ): VendorSchedule {
+    return this.scrapeScheduler.updatePolicy(vendor, changes ?? {});
+  }
+
+  @Delete('api/admin/schedules/:vendor')
+  @UseGuards(AdminGuard)
+  resetSchedule(@Param('vendor') vendor: string): VendorSchedule {
+    return this.scrapeScheduler.resetPolicy(vendor);
+  }
 }
@@ -0,0 +1,38 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AppModule } from './app.module';
+import { AppController } from './app.controller';
+import { VendorHealthService } from './scraper/vendor-health.service';
+import { ScrapeEventsService } from './scraper/scrape-events.service';
+import { PRICE_REPOSITORY } from './scraper/interfaces/price-repository.interface';
+import { SqlitePriceRepository } from './scraper/storage/sqlite-price.repository';
+
+describe('AppModule', () => {
+  let moduleRef: TestingModule;
+
+  beforeEach(async () => {
+    // Compiling resolves every provider without running lifecycle hooks, so nothing is scraped
+    moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(PRICE_REPOSITORY)
+      .useValue(new SqlitePriceRepository(':memory:'))
+      .compile();
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('should resolve AppController with the real scraper providers', () => {
+    expect(moduleRef.get(AppController)).toBeInstanceOf(AppController);
+  });
+
+  it('should export the services injected into AppController', () => {
+    expect(moduleRef.get(VendorHealthService)).toBeInstanceOf(
+      VendorHealthService,
+    );
+    expect(moduleRef.get(ScrapeEventsService)).toBeInstanceOf(
+      ScrapeEventsService,
+    );
+  });
+});
@@ -9,7 +9,7 @@ async function bootstrap() {
   // Enable CORS for frontend
   app.enableCors({
     origin: true, // Allow all origins in development
-    methods: 'GET,POST,OPTIONS',
+    methods: 'GET,POST,PUT,DELETE,OPTIONS',
     allowedHeaders: 'Content-Type, Authorization',
     credentials: true,
   });
@@ -0,0 +1,27 @@
+import { ProductCatalogConfig } from '../interfaces/product-catalog.interface';
+
+export const productCatalogConfig: ProductCatalogConfig = {
+  // Curated products; anything else is grouped by metal, type, weight and brand
+  products: [
+    {
+      id: 'gold-bar-1oz-valcambi',
+      name: 'Valcambi 1 oz gold bar',
+      metal: 'gold',
+      productType: 'bar',
+      weightGrams: 31.1035,
+      fineness: 999.9,
+      brand: 'Valcambi',
+    },
+    {
+      id: 'gold-bar-100g-argor-heraeus',
+      name: 'Argor-Heraeus 100 g gold bar',
+      metal: 'gold',
+      productType: 'bar',
+      weightGrams: 100,
+      fineness: 999.9,
+      brand: 'Argor-Heraeus',
+    },
+  ],
+  // Manual links for titles the attribute rules get wrong
+  overrides: [],
+};
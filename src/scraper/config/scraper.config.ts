@@ -1,26 +1,100 @@
+import { resolve } from 'path';
+import { VendorConfig } from '../interfaces/vendor-config.interface';
+import { SchedulePolicy } from '../interfaces/schedule.interface';
+
 export const scraperConfig = {
+  // Keyed by parser vendor ID; vendors without an entry use their parser defaults
+  // Each vendor can list several category pages, e.g. gold bars, silver bars and coins
+  // Buy-back (otkup) pages are added as sources with type: 'buyback'
   vendors: {
-    gvsCroatia: {
-      name: 'GVS Croatia',
-      url: 'https://www.zlatosrebro.hr/kupnja/cijene-zlatnih-poluga.html',
+    'gvs-croatia': { enabled: true },
+    plemenit: { enabled: true },
+    moro: { enabled: true },
+    'centar-zlata': { enabled: true },
+    elementum: { enabled: false }, // Needs its price pages listed under sources
+  } satisfies Record<string, VendorConfig>,
+  scraping: {
+    intervalMinutes: 5, // Default automatic scraping interval, see scheduling
+    requestTimeout: 10000, // 10 seconds
+    retryAttempts: 2,
+    retryDelay: 1000, // First retry after 1 second, doubled for each further attempt
+    backoffJitter: 0.2, // Retry delays vary randomly by up to ±20%
+    // Vendors failing repeatedly are skipped by the scheduler until their backoff ends
+    circuitBreaker: {
+      failureThreshold: 3, // Consecutive failed scrapes that open the circuit
+      openMinutes: 10, // First pause, doubled each time the trial scrape fails
+      maxOpenMinutes: 360,
     },
-    plemenit: {
-      name: 'Plemenit',
-      url: 'https://plemenit.hr/cijene/cijena-zlatnih-poluga/cjenik-zlatnih-poluga-usporedba/',
+    // Shared by every request to a host, see http/polite-http.client.ts
+    politeness: {
+      requestsPerSecond: Number(process.env.HOST_REQUESTS_PER_SECOND) || 1,
+      burst: 3, // Requests allowed back to back before the rate applies
+      maxConcurrentPerHost: 2,
+      respectRobotsTxt: process.env.RESPECT_ROBOTS_TXT !== 'false',
+      robotsAgent: 'AurodomusBot', // Name matched against robots.txt user-agent groups
+      robotsCacheMinutes: 60,
     },
-    moro: {
-      name: 'Moro',
-      url: 'https://www.moro.hr/kategorija-proizvoda/zlatne-poluge/',
+    maxPages: 10, // Listing pages followed per source (pagination)
+    // Default sources marked unconfirmed are only scraped when enabled; sources listed in vendor config always are
+    includeUnconfirmedSources:
+      process.env.INCLUDE_UNCONFIRMED_SOURCES === 'true',
+    // Product page visits for parsers that enrich listing entries
+    detailPages: {
+      maxProducts: 20,
+      concurrency: 2,
+      cacheTtlMinutes: 30,
     },
-    centarZlata: {
-      name: 'Centar Zlata',
-      url: 'https://www.centarzlata.com/kategorija/investicijsko-zlato/zlatne-poluge/',
+    // WooCommerce Store API (wp-json/wc/store/products), used before the HTML where supported
+    storeApi: {
+      enabled: process.env.STORE_API_ENABLED !== 'false',
+      perPage: 100,
+      maxPages: 10,
     },
+    // Cached prices of a vendor are stale past either threshold, see GET api/prices
+    staleness: {
+      maxAgeMinutes: Number(process.env.STALE_AFTER_MINUTES) || 120, // Since the last successful scrape
+      maxConsecutiveFailures: 3,
+    },
+    // Finished scrape jobs kept for GET api/jobs
+    jobHistorySize: 50,
   },
-  scraping: {
-    intervalMinutes: 5, // Automatic scraping every 5 minutes
-    requestTimeout: 10000, // 10 seconds
-    retryAttempts: 2,
-    retryDelay: 1000, // 1 second
+  scheduling: {
+    timezone: process.env.SCHEDULE_TIMEZONE || 'Europe/Zagreb',
+    // Applied to every vendor; vendors override single fields with `schedule`
+    defaults: {
+      quietHours: { start: 22, end: 6, intervalMinutes: 60 },
+      weekend: { intervalMinutes: 60 },
+      spotAcceleration: {
+        thresholdPercent: 1,
+        intervalMinutes: 2,
+        durationMinutes: 30,
+      },
+    } satisfies Partial<SchedulePolicy>,
+  },
+  shops: {
+    // Declarative WooCommerce-style shops, one *.json ShopDefinition per vendor
+    // Relative paths are resolved against the app root, so running from dist/ or another directory works
+    definitionsDir: resolve(
+      __dirname,
+      '../../..',
+      process.env.SHOP_DEFINITIONS_DIR || 'shops',
+    ),
+  },
+  storage: {
+    databasePath: process.env.DATABASE_PATH || 'data/prices.db',
+    retentionDays: Number(process.env.SNAPSHOT_RETENTION_DAYS) || 90, // Older snapshots are pruned daily
+  },
+  spot: {
+    // Providers are tried in order; the first one returning a metal wins
+    http: {
+      url: process.env.SPOT_API_URL, // e.g. https://example.com/price/{symbol}
+      pricePath: process.env.SPOT_API_PRICE_PATH || 'price',
+      apiKey: process.env.SPOT_API_KEY,
+      currency: process.env.SPOT_API_CURRENCY || 'USD', // Used unless currencyPath finds one in the response
+      currencyPath: process.env.SPOT_API_CURRENCY_PATH, // e.g. 'data.currency'
+    },
+    fixturePath: process.env.SPOT_FIXTURE_PATH,
+    currency: 'EUR', // Shop price currency; spot prices in other currencies get no premium
+    maxAgeMinutes: 60, // Older spot prices get no premium
   },
 };
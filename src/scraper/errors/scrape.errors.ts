@@ -0,0 +1,132 @@
+import { isAxiosError, isCancel } from 'axios';
+import {
+  ScrapeErrorCode,
+  ScrapeErrorPayload,
+} from '../interfaces/scrape-error.interface';
+
+interface ScrapeErrorDetails {
+  url?: string;
+  httpStatus?: number;
+  attempts?: number;
+}
+
+/**
+ * Base class of scrape failures; the code tells clients what went wrong
+ */
+export class ScrapeError extends Error {
+  constructor(
+    readonly code: ScrapeErrorCode,
+    message: string,
+    public details: ScrapeErrorDetails = {},
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toPayload(): ScrapeErrorPayload {
+    return { code: this.code, message: this.message, ...this.details };
+  }
+}
+
+export class NetworkTimeoutError extends ScrapeError {
+  constructor(message: string, details?: ScrapeErrorDetails) {
+    super('NETWORK_TIMEOUT', message, details);
+  }
+}
+
+export class NetworkError extends ScrapeError {
+  constructor(message: string, details?: ScrapeErrorDetails) {
+    super('NETWORK_ERROR', message, details);
+  }
+}
+
+export class HttpStatusError extends ScrapeError {
+  constructor(message: string, details?: ScrapeErrorDetails) {
+    super('HTTP_STATUS', message, details);
+  }
+}
+
+export class BlockedError extends ScrapeError {
+  constructor(message: string, details?: ScrapeErrorDetails) {
+    super('BLOCKED', message, details);
+  }
+}
+
+export class ParseEmptyError extends ScrapeError {
+  constructor(message: string, details?: ScrapeErrorDetails) {
+    super('PARSE_EMPTY', message, details);
+  }
+}
+
+export class LayoutChangedError extends ScrapeError {
+  constructor(message: string, details?: ScrapeErrorDetails) {
+    super('LAYOUT_CHANGED', message, details);
+  }
+}
+
+export class ValidationFailedError extends ScrapeError {
+  constructor(message: string, details?: ScrapeErrorDetails) {
+    super('VALIDATION_FAILED', message, details);
+  }
+}
+
+export class ScrapeCancelledError extends ScrapeError {
+  constructor(details?: ScrapeErrorDetails) {
+    super('CANCELLED', 'Scraping cancelled', details);
+  }
+}
+
+/**
+ * Classify a failed request: timeouts, blocks, other HTTP statuses and network errors
+ */
+export function toRequestError(
+  error: unknown,
+  url: string,
+  attempts?: number,
+): ScrapeError {
+  if (error instanceof ScrapeError) {
+    error.details = { ...error.details, url, attempts };
+    return error;
+  }
+  if (isCancel(error)) return new ScrapeCancelledError({ url, attempts });
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (!isAxiosError(error)) return new NetworkError(message, { url, attempts });
+
+  const httpStatus = error.response?.status;
+  if (httpStatus === 403 || httpStatus === 429) {
+    return new BlockedError(`${url} responded with ${httpStatus}`, {
+      url,
+      httpStatus,
+      attempts,
+    });
+  }
+  if (httpStatus) {
+    return new HttpStatusError(`${url} responded with ${httpStatus}`, {
+      url,
+      httpStatus,
+      attempts,
+    });
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new NetworkTimeoutError(`${url} timed out: ${message}`, {
+      url,
+      attempts,
+    });
+  }
+  return new NetworkError(`${url} is unreachable: ${message}`, {
+    url,
+    attempts,
+  });
+}
+
+/**
+ * API payload of any error; errors that are not ScrapeErrors are UNKNOWN
+ */
+export function toScrapeErrorPayload(error: unknown): ScrapeErrorPayload {
+  if (error instanceof ScrapeError) return error.toPayload();
+  return {
+    code: 'UNKNOWN',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
@@ -0,0 +1,15 @@
+import { scraperConfig } from '../config/scraper.config';
+
+/**
+ * Exponential backoff: base * 2^attempt, capped, varied by the configured jitter
+ * @param attempt Zero-based retry number
+ */
+export function getBackoffDelay(
+  baseMs: number,
+  attempt: number,
+  maxMs = Infinity,
+): number {
+  const jitter = scraperConfig.scraping.backoffJitter;
+  const delay = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(delay * (1 + (Math.random() * 2 - 1) * jitter));
+}
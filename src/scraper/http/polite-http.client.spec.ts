@@ -0,0 +1,153 @@
+import { AxiosAdapter, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { createHttpClient, RobotsDisallowedError } from './polite-http.client';
+import { parseRobotsTxt } from './robots-txt';
+
+describe('createHttpClient', () => {
+  const robots: Record<string, string> = {
+    'https://shop-c.test/robots.txt': '503',
+    'https://shop-d.test/robots.txt': '404',
+    'https://shop-a.test/robots.txt': [
+      'User-agent: *',
+      'Disallow: /moj-racun',
+      'Disallow: /*?add-to-cart=',
+      'Allow: /moj-racun/cjenik$',
+    ].join('\n'),
+  };
+  let inFlight: number;
+  let maxInFlight: number;
+  let adapter: jest.Mock<
+    ReturnType<AxiosAdapter>,
+    [InternalAxiosRequestConfig]
+  >;
+
+  beforeEach(() => {
+    inFlight = 0;
+    maxInFlight = 0;
+    adapter = jest.fn(async (config: InternalAxiosRequestConfig) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight--;
+      const body = robots[config.url ?? ''] ?? '<html></html>';
+      const status = /^\d{3}$/.test(body) ? Number(body) : 200;
+      return {
+        data: body,
+        status,
+        statusText: String(status),
+        headers: {},
+        config,
+      };
+    });
+  });
+
+  it('should follow robots.txt rules and fetch them once per host', async () => {
+    const http = createHttpClient({ adapter });
+
+    await expect(http.get('https://shop-a.test/moj-racun')).rejects.toThrow(
+      RobotsDisallowedError,
+    );
+    await expect(
+      http.get('https://shop-a.test/zlato?add-to-cart=12'),
+    ).rejects.toThrow(RobotsDisallowedError);
+    await http.get('https://shop-a.test/moj-racun/cjenik');
+    await http.get('https://shop-a.test/zlato');
+
+    const robotsRequests = adapter.mock.calls.filter(([config]) =>
+      config.url?.endsWith('/robots.txt'),
+    );
+    expect(robotsRequests).toHaveLength(1);
+  });
+
+  it('should fetch robots.txt without the page conditional headers', async () => {
+    const http = createHttpClient({
+      adapter,
+      headers: { 'User-Agent': 'AurodomusBot' },
+    });
+
+    await http.get('https://shop-f.test/zlato', {
+      headers: {
+        'If-None-Match': '"abc"',
+        'If-Modified-Since': 'Wed, 01 Jan 2026 10:00:00 GMT',
+      },
+    });
+
+    const [robotsConfig] = adapter.mock.calls
+      .map(([config]) => config)
+      .filter((config) => config.url?.endsWith('/robots.txt'));
+    expect(robotsConfig.headers.get('User-Agent')).toBe('AurodomusBot');
+    expect(robotsConfig.headers.has('If-None-Match')).toBe(false);
+    expect(robotsConfig.headers.has('If-Modified-Since')).toBe(false);
+  });
+
+  it('should limit concurrent requests per host', async () => {
+    const http = createHttpClient({ adapter });
+
+    await Promise.all([
+      http.get('https://shop-b.test/1'),
+      http.get('https://shop-b.test/2'),
+      http.get('https://shop-b.test/3'),
+    ]);
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should disallow everything when robots.txt fails with a server error', async () => {
+    const http = createHttpClient({ adapter });
+
+    await expect(http.get('https://shop-c.test/zlato')).rejects.toThrow(
+      RobotsDisallowedError,
+    );
+    await expect(http.get('https://shop-d.test/zlato')).resolves.toMatchObject({
+      status: 200,
+    });
+  });
+
+  it('should stop waiting for a request slot when aborted', async () => {
+    let finish!: () => void;
+    const blocked = new Promise<void>((resolve) => (finish = resolve));
+    const slowAdapter = jest.fn(async (config: InternalAxiosRequestConfig) => {
+      if (!config.url?.endsWith('/robots.txt')) await blocked;
+      return { data: '', status: 200, statusText: 'OK', headers: {}, config };
+    });
+    const http = createHttpClient({ adapter: slowAdapter });
+    const controller = new AbortController();
+
+    const running = [
+      http.get('https://shop-e.test/1'),
+      http.get('https://shop-e.test/2'),
+    ];
+    const queued = http.get('https://shop-e.test/3', {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(queued).rejects.toThrow(CanceledError);
+    finish();
+    await Promise.all(running);
+    expect(slowAdapter).not.toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://shop-e.test/3' }),
+    );
+  });
+});
+
+describe('parseRobotsTxt', () => {
+  it('should prefer the group naming our agent and read Crawl-delay', () => {
+    const text = [
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: AurodomusBot # price comparison',
+      'Disallow: /checkout',
+      'Crawl-delay: 5',
+    ].join('\n');
+
+    expect(parseRobotsTxt(text, 'AurodomusBot')).toEqual({
+      allow: [],
+      disallow: ['/checkout'],
+      crawlDelay: 5,
+    });
+    expect(parseRobotsTxt(text, 'OtherBot').disallow).toEqual(['/']);
+  });
+});
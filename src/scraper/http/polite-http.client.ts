@@ -0,0 +1,193 @@
+import axios, {
+  AxiosAdapter,
+  AxiosInstance,
+  CanceledError,
+  CreateAxiosDefaults,
+  GenericAbortSignal,
+} from 'axios';
+import { scraperConfig } from '../config/scraper.config';
+import { BlockedError } from '../errors/scrape.errors';
+import { RobotsRules } from '../interfaces/robots.interface';
+import { isPathAllowed, parseRobotsTxt } from './robots-txt';
+
+export class RobotsDisallowedError extends BlockedError {
+  constructor(url: string) {
+    super(`${url} is disallowed by robots.txt`, { url });
+  }
+}
+
+interface HostState {
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  waiting: (() => void)[];
+  robots?: Promise<RobotsRules | null>;
+  robotsFetchedAt?: number;
+}
+
+// Shared by every client, so parsers and detail page workers hitting one host queue together
+const hosts = new Map<string, HostState>();
+
+// A robots.txt that fails with a server error means the whole site is off limits (RFC 9309)
+const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ['/'] };
+
+/**
+ * Axios instance whose requests respect the host's robots.txt,
+ * a per-host token bucket and a per-host concurrency limit
+ */
+export function createHttpClient(config?: CreateAxiosDefaults): AxiosInstance {
+  const instance = axios.create(config);
+  const adapter = axios.getAdapter(instance.defaults.adapter);
+
+  instance.defaults.adapter = async (requestConfig) => {
+    const url = new URL(instance.getUri(requestConfig));
+    const state = getHostState(url.host);
+
+    const rules = await getRobotsRules(url, state, adapter, requestConfig);
+    if (rules && !isPathAllowed(rules, url.pathname + url.search)) {
+      throw new RobotsDisallowedError(url.toString());
+    }
+
+    const release = await acquire(state, rules, requestConfig.signal);
+    try {
+      return await adapter(requestConfig);
+    } finally {
+      release();
+    }
+  };
+
+  return instance;
+}
+
+function getHostState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    state = {
+      tokens: scraperConfig.scraping.politeness.burst,
+      refilledAt: Date.now(),
+      active: 0,
+      waiting: [],
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+/**
+ * Cached robots.txt rules of a host
+ * A missing or unreachable file allows everything, a 5xx response disallows everything
+ */
+function getRobotsRules(
+  url: URL,
+  state: HostState,
+  adapter: AxiosAdapter,
+  requestConfig: Parameters<AxiosAdapter>[0],
+): Promise<RobotsRules | null> {
+  const { respectRobotsTxt, robotsAgent, robotsCacheMinutes } =
+    scraperConfig.scraping.politeness;
+  if (!respectRobotsTxt) return Promise.resolve(null);
+
+  const expired =
+    !state.robotsFetchedAt ||
+    Date.now() - state.robotsFetchedAt > robotsCacheMinutes * 60000;
+  if (!state.robots || expired) {
+    state.robotsFetchedAt = Date.now();
+    state.robots = axios
+      .get<string>(new URL('/robots.txt', url).toString(), {
+        adapter,
+        // Not the page's headers: its If-None-Match/If-Modified-Since could get a bodiless 304
+        headers: {
+          'User-Agent': requestConfig.headers.get('User-Agent') ?? robotsAgent,
+          Accept: 'text/plain',
+        },
+        timeout: requestConfig.timeout,
+        responseType: 'text',
+      })
+      .then((response) => {
+        if (response.status >= 500) return DISALLOW_ALL;
+        if (response.status >= 400) return null;
+        return parseRobotsTxt(String(response.data), robotsAgent);
+      })
+      .catch((error) =>
+        axios.isAxiosError(error) && (error.response?.status ?? 0) >= 500
+          ? DISALLOW_ALL
+          : null,
+      );
+  }
+  return state.robots;
+}
+
+/**
+ * Wait for a free request slot and a token of the host's bucket
+ * A robots.txt Crawl-delay lowers the rate and disables bursts
+ */
+async function acquire(
+  state: HostState,
+  rules: RobotsRules | null,
+  signal?: GenericAbortSignal,
+): Promise<() => void> {
+  const { requestsPerSecond, burst, maxConcurrentPerHost } =
+    scraperConfig.scraping.politeness;
+  const crawlDelay = rules?.crawlDelay;
+  const rate = crawlDelay
+    ? Math.min(requestsPerSecond, 1 / crawlDelay)
+    : requestsPerSecond;
+  const capacity = crawlDelay ? 1 : burst;
+
+  while (state.active >= maxConcurrentPerHost) {
+    await waitForSlot(state, signal);
+  }
+  state.active++;
+  const release = () => {
+    state.active--;
+    state.waiting.shift()?.();
+  };
+
+  try {
+    for (;;) {
+      if (signal?.aborted) throw new CanceledError();
+      const now = Date.now();
+      state.tokens = Math.min(
+        capacity,
+        state.tokens + ((now - state.refilledAt) / 1000) * rate,
+      );
+      state.refilledAt = now;
+      if (state.tokens >= 1) {
+        state.tokens--;
+        return release;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, ((1 - state.tokens) / rate) * 1000),
+      );
+    }
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
+
+/**
+ * Queue for the host's next free request slot, leaving the queue when aborted
+ */
+function waitForSlot(
+  state: HostState,
+  signal?: GenericAbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      const index = state.waiting.indexOf(wake);
+      if (index >= 0) state.waiting.splice(index, 1);
+      reject(new CanceledError());
+    };
+    const wake = () => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    };
+    signal?.addEventListener?.('abort', onAbort);
+    state.waiting.push(wake);
+  });
+}
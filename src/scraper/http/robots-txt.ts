@@ -0,0 +1,67 @@
+import { RobotsRules } from '../interfaces/robots.interface';
+
+/**
+ * Rules of the group naming our agent, or of the "*" group otherwise
+ */
+export function parseRobotsTxt(text: string, agent: string): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | undefined;
+  let readingAgents = false;
+
+  text.split(/\r?\n/).forEach((line) => {
+    const match = line
+      .replace(/#.*$/, '')
+      .match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+    if (!match) return;
+    const key = match[1].toLowerCase();
+    const value = match[2];
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      return;
+    }
+
+    readingAgents = false;
+    if (!current) return;
+    if (key === 'allow' && value) current.rules.allow.push(value);
+    if (key === 'disallow' && value) current.rules.disallow.push(value);
+    if (key === 'crawl-delay' && Number(value) >= 0) {
+      current.rules.crawlDelay = Number(value);
+    }
+  });
+
+  const name = agent.toLowerCase();
+  const group =
+    groups.find((g) => g.agents.some((a) => a !== '*' && name.includes(a))) ??
+    groups.find((g) => g.agents.includes('*'));
+  return group?.rules ?? { allow: [], disallow: [] };
+}
+
+/**
+ * The longest matching rule wins, Allow wins ties; supports * and $ patterns
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longestMatch = (patterns: string[]) =>
+    Math.max(
+      -1,
+      ...patterns
+        .filter((pattern) => toRegExp(pattern).test(path))
+        .map((pattern) => pattern.length),
+    );
+  return longestMatch(rules.allow) >= longestMatch(rules.disallow);
+}
+
+function toRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
@@ -0,0 +1,24 @@
+import { PriceEntry } from './price.interface';
+
+export interface DetailPageOptions {
+  select?: (entry: PriceEntry) => boolean; // Which products to visit, defaults to all with a link
+  maxProducts?: number; // Defaults to scraping.detailPages.maxProducts
+  concurrency?: number; // Defaults to scraping.detailPages.concurrency
+}
+
+// Data read from a product page; prices there are more current than on listings
+export interface ProductDetails {
+  price?: number;
+  regularPrice?: number;
+  discountedPrice?: number;
+  inStock?: boolean;
+  specs?: Record<string, string>; // e.g. { 'Težina': '1 g', 'Čistoća': '999,9' }
+  images?: string[];
+}
+
+export interface EnrichmentStats {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  cached: number; // Served from the detail page cache without a request
+}
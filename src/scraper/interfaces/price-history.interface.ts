@@ -0,0 +1,33 @@
+export type HistoryInterval = '1h' | '1d';
+
+export interface PriceHistoryQuery {
+  vendor?: string;
+  product?: string; // Case-insensitive match on product title
+  from: Date;
+  to: Date;
+}
+
+export interface PriceSample {
+  vendor: string;
+  productTitle: string;
+  unit: string;
+  price: number;
+  scrapedAt: Date;
+}
+
+export interface PriceCandle {
+  bucketStart: Date; // Daily candles start at midnight in scheduling.timezone
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number; // Number of snapshots aggregated into this candle
+}
+
+export interface PriceHistorySeries {
+  vendor: string;
+  productTitle: string;
+  unit: string;
+  interval: HistoryInterval;
+  candles: PriceCandle[];
+}
@@ -0,0 +1,9 @@
+export interface PriceQuote {
+  vendor: string;
+  productTitle: string;
+  productLink?: string;
+  quantity: number;
+  minQuantity: number; // Tier that applies to the requested quantity
+  unitPrice: number;
+  totalPrice: number;
+}
@@ -0,0 +1,44 @@
+import { VendorPriceData } from './price.interface';
+import { PriceHistoryQuery, PriceSample } from './price-history.interface';
+import { SpotPrice, SpotPriceQuery } from './spot-price.interface';
+
+export const PRICE_REPOSITORY = Symbol('PRICE_REPOSITORY');
+
+export interface PriceRepository {
+  /**
+   * Persist a scraped snapshot (including failed attempts)
+   */
+  saveSnapshot(data: VendorPriceData): Promise<void>;
+
+  /**
+   * Delete snapshots scraped before a date, except each vendor's latest successful one
+   * Price samples older than the date are deleted as well
+   * @returns Number of deleted snapshots
+   */
+  pruneSnapshots(before: Date): Promise<number>;
+
+  /**
+   * Get the most recent successful snapshot for every vendor
+   */
+  getLatestSnapshots(): Promise<VendorPriceData[]>;
+
+  /**
+   * Get individual price samples within a time range, oldest first
+   */
+  getPriceSamples(query: PriceHistoryQuery): Promise<PriceSample[]>;
+
+  /**
+   * Persist fetched spot prices
+   */
+  saveSpotPrices(prices: SpotPrice[]): Promise<void>;
+
+  /**
+   * Get the most recent spot price for every metal
+   */
+  getLatestSpotPrices(): Promise<SpotPrice[]>;
+
+  /**
+   * Get stored spot prices within a time range, oldest first
+   */
+  getSpotPrices(query: SpotPriceQuery): Promise<SpotPrice[]>;
+}
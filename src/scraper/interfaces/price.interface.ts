@@ -1,25 +1,89 @@
+import { FieldSource } from './structured-data.interface';
+import { EnrichmentStats } from './detail-page.interface';
+import { ScrapeErrorPayload } from './scrape-error.interface';
+
+export type Metal = 'gold' | 'silver' | 'platinum' | 'palladium';
+
+export const METALS: Metal[] = ['gold', 'silver', 'platinum', 'palladium'];
+
+export type ProductType = 'bar' | 'coin';
+
+export interface PriceOffer {
+  label: string; // Offer/column name as shown by the vendor
+  price: number; // Effective price for this offer
+  regularPrice?: number;
+  discountedPrice?: number;
+  conditions?: string; // Payment/delivery terms the offer depends on
+}
+
+export interface QuantityTier {
+  minQuantity: number; // Tier applies from this many pieces ("od N kom.")
+  unitPrice: number;
+}
+
 export interface PriceEntry {
   unit: string; // 'gram', 'ounce', 'kg', etc.
-  buyPrice?: number;
+  weightGrams?: number; // Normalized product weight in grams (1 oz = 31.1035)
+  metal?: Metal;
+  productType?: ProductType;
+  fineness?: number; // Millesimal fineness, e.g. 999.9
+  brand?: string; // Refiner or mint, e.g. 'Argor-Heraeus'
+  buyPrice?: number; // Bid - what the vendor pays when buying the product back
   sellPrice?: number;
   price?: number; // if single price (not buy/sell)
   regularPrice?: number; // Regular/original price (before discount)
   discountedPrice?: number; // Discounted/sale price (current price)
   productTitle?: string; // Product name/title
   productLink?: string; // Link to product page
+  inStock?: boolean; // Only known for shops with structured stock data
+  sku?: string;
+  specs?: Record<string, string>; // Product specifications from the detail page
+  images?: string[];
+  fieldSources?: Partial<Record<keyof PriceEntry, FieldSource>>; // Where structured fields came from
+  offers?: PriceOffer[]; // Alternative offers for the same product (e.g. per payment option)
+  quantityTiers?: QuantityTier[]; // Volume pricing, sorted by minQuantity
+  pricePerGram?: number; // Computed from price and weightGrams
+  pricePerOunce?: number; // Price per troy ounce
+  premiumPercent?: number; // Premium over the reference spot price
+  spreadPercent?: number; // Bid/ask spread relative to the ask price
+  productId?: string; // Canonical product this entry was matched to
 }
 
+export type ProductAttributes = Pick<
+  PriceEntry,
+  'unit' | 'weightGrams' | 'metal' | 'fineness' | 'brand'
+>;
+
 export interface VendorPriceData {
   vendor: string;
   url: string;
   scrapedAt: Date;
   prices: PriceEntry[];
   error?: string; // Error message if scraping failed
+  errorDetails?: ScrapeErrorPayload; // Code, URL, HTTP status and attempts of the failure
+  sourceErrors?: { url: string; error: string; details?: ScrapeErrorPayload }[]; // Sources that failed while others succeeded
+  enrichment?: EnrichmentStats; // Detail page visits, for vendors that use them
+  notModified?: boolean; // Every page was unchanged since the last scrape, entries were reused
 }
 
+/**
+ * How current a vendor's cached prices are and how its latest scrapes went
+ */
+export interface VendorFreshness {
+  lastSuccessAt?: Date; // When the cached prices were scraped, unset if no scrape has succeeded
+  lastAttemptAt: Date;
+  lastError?: string; // Error of the latest attempt, if it failed
+  lastErrorDetails?: ScrapeErrorPayload;
+  consecutiveFailures: number;
+  stale: boolean; // Past the configured age or failure threshold
+}
+
+export type VendorPriceStatus = VendorPriceData & VendorFreshness;
+
 export interface ScraperResult {
   vendor: string;
   success: boolean;
   data?: VendorPriceData;
   error?: string;
+  errorDetails?: ScrapeErrorPayload;
 }
@@ -0,0 +1,39 @@
+import { Metal, ProductType } from './price.interface';
+
+export interface CanonicalProduct {
+  id: string; // Stable slug, e.g. 'gold-bar-100g-argor-heraeus'
+  name: string;
+  metal: Metal;
+  productType?: ProductType;
+  weightGrams: number;
+  fineness?: number; // Only entries with this fineness (when known) match
+  brand?: string; // Only entries of this brand match; omit to accept any brand
+}
+
+export interface ProductOverride {
+  vendor?: string; // Limit the override to one vendor
+  title: RegExp; // Matched against the entry's product title
+  productId: string; // Id of a curated product
+}
+
+export interface ProductCatalogConfig {
+  products: CanonicalProduct[];
+  overrides: ProductOverride[];
+}
+
+export interface ProductOffer {
+  vendor: string;
+  scrapedAt: Date;
+  productTitle?: string;
+  productLink?: string;
+  price?: number; // Ask
+  buyPrice?: number; // Bid
+  pricePerGram?: number;
+  premiumPercent?: number;
+  spreadPercent?: number;
+}
+
+export interface ProductOffers {
+  product: CanonicalProduct;
+  offers: ProductOffer[]; // Cheapest first
+}
@@ -0,0 +1,22 @@
+import { ScrapeErrorPayload } from './scrape-error.interface';
+
+/**
+ * Phases of a vendor scrape: listing pages, product pages, then validation and storage
+ */
+export type ScrapePhase = 'fetch' | 'parse' | 'enrich' | 'validate';
+
+export interface ProgressUpdate {
+  phase: ScrapePhase;
+  message: string; // e.g. "Fetching page 2 of source 1/3"
+  progress: number; // 0-100, parsers report up to PARSER_PROGRESS_SHARE
+}
+
+export interface ScrapingProgress {
+  vendor: string;
+  status: 'pending' | 'scraping' | 'completed' | 'error';
+  progress: number; // 0-100
+  phase?: ScrapePhase; // Phase of a running scrape
+  message?: string; // What is being done, e.g. "Fetched detail page 3/10"
+  error?: string;
+  errorDetails?: ScrapeErrorPayload;
+}
@@ -0,0 +1,8 @@
+/**
+ * robots.txt rules of the group that applies to our crawler
+ */
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number; // Seconds between requests
+}
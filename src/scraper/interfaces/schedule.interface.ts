@@ -0,0 +1,28 @@
+export interface SchedulePolicy {
+  cron?: string; // Cron expression, takes precedence over intervalMinutes in normal mode
+  intervalMinutes: number;
+  // Local hours [start, end), may wrap midnight; a null interval pauses scraping
+  quietHours?: { start: number; end: number; intervalMinutes: number | null };
+  weekend?: { intervalMinutes: number | null }; // Saturday and Sunday
+  // Scrape faster for a while after spot moves by thresholdPercent between two spot refreshes
+  spotAcceleration?: {
+    thresholdPercent: number;
+    intervalMinutes: number;
+    durationMinutes: number;
+  };
+}
+
+export type ScheduleMode =
+  | 'normal'
+  | 'quiet-hours'
+  | 'weekend'
+  | 'accelerated'
+  | 'paused';
+
+export interface VendorSchedule {
+  vendor: string; // Vendor ID
+  policy: SchedulePolicy; // Config merged with runtime changes
+  mode: ScheduleMode;
+  lastRunAt?: Date;
+  nextRunAt?: Date; // Unset while paused
+}
@@ -0,0 +1,21 @@
+export type ScrapeErrorCode =
+  | 'NETWORK_TIMEOUT'
+  | 'NETWORK_ERROR' // DNS failures, refused or reset connections
+  | 'HTTP_STATUS'
+  | 'BLOCKED' // 403/429 responses and pages disallowed by robots.txt
+  | 'PARSE_EMPTY'
+  | 'LAYOUT_CHANGED'
+  | 'VALIDATION_FAILED'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+/**
+ * Error as returned by the API, next to the plain `error` message
+ */
+export interface ScrapeErrorPayload {
+  code: ScrapeErrorCode;
+  message: string;
+  url?: string;
+  httpStatus?: number;
+  attempts?: number; // Requests made before giving up
+}
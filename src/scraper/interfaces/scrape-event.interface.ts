@@ -0,0 +1,24 @@
+import { VendorPriceData } from './price.interface';
+import { ScrapingProgress } from './progress.interface';
+import { ScrapeErrorPayload } from './scrape-error.interface';
+
+/**
+ * Events pushed to GET api/stream subscribers
+ */
+export type ScrapeEvent =
+  | { type: 'progress'; vendor: string; progress: ScrapingProgress }
+  | {
+      type: 'vendor-completed';
+      vendor: string;
+      success: boolean;
+      priceCount?: number;
+      notModified?: boolean;
+      error?: string;
+      errorDetails?: ScrapeErrorPayload;
+    }
+  | { type: 'prices'; vendor: string; data: VendorPriceData };
+
+export interface ScrapeEventFilter {
+  vendor?: string; // Vendor ID or name
+  product?: string; // Catalog product ID, narrows price events to its offers
+}
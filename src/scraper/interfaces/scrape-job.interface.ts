@@ -0,0 +1,31 @@
+import { ScrapeErrorPayload } from './scrape-error.interface';
+
+export type ScrapeJobState =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Outcome of one vendor in a job; full price data stays in the price cache
+ */
+export interface ScrapeJobResult {
+  vendor: string;
+  success: boolean;
+  priceCount?: number;
+  notModified?: boolean; // Pages were unchanged since the last scrape
+  error?: string;
+  errorDetails?: ScrapeErrorPayload; // Error code, URL, HTTP status and attempts
+}
+
+export interface ScrapeJob {
+  id: string;
+  vendors: string[]; // Vendor IDs requested
+  state: ScrapeJobState;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  results: ScrapeJobResult[];
+  error?: string; // Set when the job itself failed, vendor errors are in results
+}
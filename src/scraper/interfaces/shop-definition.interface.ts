@@ -0,0 +1,44 @@
+import { ParserRegistration } from './vendor-config.interface';
+
+// Where to look for the product weight; selectors are relative to the product container
+export type WeightSource =
+  | 'title'
+  | 'text' // Whole product container text
+  | 'link' // Product URL slug, e.g. /zlatna-poluga-100g/
+  | { selector: string; attribute?: string };
+
+export interface UnitRule {
+  pattern: string; // Regex with one capture group for the amount, e.g. "(\\d+)\\s*dukat"
+  unit: string; // Unit reported for matching products
+  gramsPerUnit: number; // Weight of one unit in grams
+}
+
+export interface ShopSelectors {
+  product: string; // Product container, e.g. 'li.product'
+  title: string;
+  link?: string; // Defaults to the first link in the product container
+  price: string; // Price container, e.g. '.price'
+  regularPrice?: string; // Inside the price container, defaults to 'del'
+  salePrice?: string; // Inside the price container, defaults to 'ins'
+  amount?: string; // Single amount inside the price container
+}
+
+/**
+ * Declarative definition of a WooCommerce-style shop, loaded from JSON
+ */
+export interface ShopDefinition extends Omit<
+  ParserRegistration,
+  'capabilities'
+> {
+  capabilities?: ParserRegistration['capabilities'];
+  selectors: ShopSelectors;
+  weight?: WeightSource[]; // Tried in order, defaults to ['title', 'text']
+  unitRules?: UnitRule[]; // Tried before the standard weight parsing
+  storeApi?: boolean; // Try the WooCommerce Store API before the HTML
+  structuredData?: boolean; // Prefer schema.org JSON-LD/microdata when present
+  detailPages?: {
+    titlePattern?: string; // Regex on product titles, defaults to every product
+    maxProducts?: number;
+    concurrency?: number;
+  };
+}
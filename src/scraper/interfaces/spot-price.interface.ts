@@ -0,0 +1,27 @@
+import { Metal } from './price.interface';
+
+export interface SpotPrice {
+  metal: Metal;
+  pricePerOunce: number; // Price per troy ounce
+  currency: string;
+  provider: string;
+  fetchedAt: Date;
+}
+
+export interface SpotPriceQuery {
+  metal?: Metal;
+  from: Date;
+  to: Date;
+}
+
+export interface SpotPriceProvider {
+  /**
+   * Provider name, stored with every price it returns
+   */
+  getName(): string;
+
+  /**
+   * Fetch current spot prices for every metal the provider supports
+   */
+  fetchSpotPrices(): Promise<SpotPrice[]>;
+}
@@ -0,0 +1,16 @@
+// Subset of the WooCommerce Store API product schema (wp-json/wc/store/products)
+export interface StoreApiProduct {
+  id: number;
+  name: string; // May contain HTML entities
+  permalink: string;
+  short_description?: string;
+  on_sale: boolean;
+  is_in_stock: boolean;
+  prices: {
+    price: string; // Minor units, e.g. "1025000" for 10.250,00 €
+    regular_price: string;
+    sale_price: string;
+    currency_code: string;
+    currency_minor_unit: number;
+  };
+}
@@ -0,0 +1,19 @@
+// Where a price entry field was read from; fields without a recorded source come from HTML heuristics
+export type FieldSource =
+  | 'json-ld'
+  | 'microdata'
+  | 'store-api'
+  | 'detail-page'
+  | 'html';
+
+// A schema.org Product with its first usable Offer
+export interface StructuredProduct {
+  source: Extract<FieldSource, 'json-ld' | 'microdata'>;
+  name?: string;
+  url?: string;
+  sku?: string;
+  brand?: string;
+  price?: number;
+  priceCurrency?: string;
+  availability?: string; // e.g. 'https://schema.org/InStock'
+}
@@ -0,0 +1,42 @@
+import { Metal, ProductType } from './price.interface';
+import { SchedulePolicy } from './schedule.interface';
+
+// 'sale' pages list what the vendor sells, 'buyback' (otkup) pages what it pays
+export type SourceType = 'sale' | 'buyback';
+
+export interface VendorSource {
+  url: string; // Category/listing page
+  metal: Metal;
+  productType: ProductType;
+  type?: SourceType; // Defaults to 'sale'
+  category?: string; // Store API category slug or ID, defaults to the URL's last path segment
+  maxPages?: number; // Listing pages to follow, defaults to scraping.maxPages
+  unconfirmed?: boolean; // Default source not yet checked against the live site, see scraping.includeUnconfirmedSources
+}
+
+// Optional features a parser supports beyond plain listing prices
+export type ParserCapability =
+  | 'buyback-prices'
+  | 'quantity-tiers'
+  | 'multiple-offers'
+  | 'detail-pages'
+  | 'store-api'
+  | 'structured-data';
+
+export interface ParserRegistration {
+  id: string; // Stable vendor ID used in config and API routes, e.g. 'gvs-croatia'
+  name: string; // Display name, stored with every snapshot
+  sources: VendorSource[]; // Default sources, can be replaced in config
+  capabilities: ParserCapability[];
+  enabled?: boolean; // Used when the vendor has no config entry, defaults to true
+}
+
+export interface VendorConfig {
+  enabled: boolean;
+  sources?: VendorSource[]; // Replaces the parser's default sources
+  schedule?: Partial<SchedulePolicy>; // Overrides scheduling.defaults
+}
+
+export interface VendorInfo extends ParserRegistration {
+  enabled: boolean;
+}
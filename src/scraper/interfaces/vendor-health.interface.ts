@@ -0,0 +1,15 @@
+import { ScrapeErrorPayload } from './scrape-error.interface';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface VendorHealth {
+  vendor: string; // Vendor ID
+  state: CircuitState; // open: skipped by the scheduler until nextRetryAt
+  consecutiveFailures: number;
+  openedAt?: Date;
+  nextRetryAt?: Date; // When an open vendor gets a trial scrape
+  lastError?: string;
+  lastErrorDetails?: ScrapeErrorPayload;
+  lastAttemptAt?: Date; // Unset until the vendor's first scrape since startup
+  lastSuccessAt?: Date;
+}
@@ -0,0 +1,581 @@
+import { Logger } from '@nestjs/common';
+import { AxiosError, AxiosInstance, AxiosResponse, CanceledError } from 'axios';
+import { BaseParser } from './base.parser';
+import { PriceEntry, ProductAttributes } from '../interfaces/price.interface';
+import { StoreApiProduct } from '../interfaces/store-api.interface';
+import { EnrichmentStats } from '../interfaces/detail-page.interface';
+import { ProgressUpdate } from '../interfaces/progress.interface';
+import { ScrapeCancelledError } from '../errors/scrape.errors';
+
+class TestParser extends BaseParser {
+  pages: Record<string, PriceEntry[]> = {};
+  parsed: PriceEntry[] = [];
+  htmlPages: Record<string, string> = {};
+  pageEntries: Record<string, PriceEntry[]> = {};
+  crawlListings = false; // Scrape sources through fetchHtml and pagination
+
+  parse(html: string): PriceEntry[] {
+    return this.pageEntries[html] ?? this.parsed;
+  }
+
+  protected fetchHtml(): Promise<string> {
+    return Promise.resolve(this.htmlPages[this.vendorUrl] ?? '');
+  }
+
+  fetchWith(http: Partial<AxiosInstance>): Promise<string> {
+    this.axiosInstance = http as AxiosInstance;
+    return super.fetchHtml();
+  }
+
+  crawl(html: string): Promise<PriceEntry[]> {
+    return this.crawlNextPages(html, this.parse(html));
+  }
+
+  nextPage(html: string, url: string): string | null {
+    return this.findNextPageUrl(html, url);
+  }
+
+  enrich(
+    prices: PriceEntry[],
+    pages: Record<string, string>,
+  ): Promise<EnrichmentStats> {
+    return this.enrichWith(prices, {
+      get: (url: string) =>
+        pages[url]
+          ? Promise.resolve({ data: pages[url] })
+          : Promise.reject(new Error('404')),
+    } as unknown as Partial<AxiosInstance>);
+  }
+
+  enrichWith(
+    prices: PriceEntry[],
+    http: Partial<AxiosInstance>,
+  ): Promise<EnrichmentStats> {
+    this.detailPages = { concurrency: 2 };
+    this.axiosInstance = http as AxiosInstance;
+    return this.enrichFromDetailPages(prices);
+  }
+
+  parseWithStructuredData(html: string): PriceEntry[] {
+    this.useStructuredData = true;
+    return this.parseSource(html);
+  }
+
+  protected scrapeSource(): Promise<PriceEntry[]> {
+    if (this.crawlListings) return super.scrapeSource();
+    return Promise.resolve(this.pages[this.vendorUrl] ?? []);
+  }
+
+  attributes(title: string, text?: string): ProductAttributes {
+    return this.extractProductAttributes(title, text);
+  }
+
+  storeApiEntry(product: StoreApiProduct): PriceEntry | null {
+    return this.mapStoreApiProduct(product);
+  }
+}
+
+describe('BaseParser', () => {
+  const parser = new TestParser('Test', [
+    { url: 'https://example.com', metal: 'gold', productType: 'bar' },
+  ]);
+
+  describe('extractProductAttributes', () => {
+    it.each([
+      ['Zlatna poluga 31,1035 g', 31.1035, 'gram'],
+      ['Zlatnik 1 unca Wiener Philharmoniker', 31.1035, 'ounce'],
+      ['Krugerrand 1/10 oz', 3.1103, 'ounce'],
+      ['Zlatna poluga 1.000 g', 1000, 'kg'],
+      ['Zlatna poluga 1 kg', 1000, 'kg'],
+      ['100g zlatna poluga', 100, 'gram'],
+    ])('should parse weight from "%s"', (title, weightGrams, unit) => {
+      expect(parser.attributes(title)).toMatchObject({ weightGrams, unit });
+    });
+
+    it('should extract metal, fineness and brand', () => {
+      expect(
+        parser.attributes('Zlatna poluga 100 g Argor-Heraeus 999,9'),
+      ).toEqual({
+        unit: 'gram',
+        weightGrams: 100,
+        metal: 'gold',
+        fineness: 999.9,
+        brand: 'Argor-Heraeus',
+      });
+    });
+
+    it.each([
+      ['Heraeus 100 g AG', undefined],
+      ['Münze Österreich AG Philharmoniker 1 oz', undefined],
+      ['Zlatarna Zagreb - poklon bon', undefined],
+      ['Investicijsko srebro Ag 999 1 kg', 'silver'],
+      ['Poluga Au 999,9 10 g', 'gold'],
+    ])(
+      'should only detect a metal from product words in "%s"',
+      (title, metal) => {
+        expect(parser.attributes(title).metal).toBe(metal);
+      },
+    );
+
+    it.each([
+      ['Zlatna poluga 750 g', undefined],
+      ['Srebrna poluga 1 kg Ag 999', 999],
+      ['Zlatni lančić 585/1000', 585],
+      ['Zlatnik 1 oz, čistoća: 916,7', 916.7],
+      ['Zlatna poluga 1 oz 0.9999', 999.9],
+    ])('should read fineness only with a marker in "%s"', (title, fineness) => {
+      expect(parser.attributes(title).fineness).toBe(fineness);
+    });
+
+    it('should not read prices as fineness', () => {
+      expect(
+        parser.attributes('Srebrna poluga 1 kg', 'Cijena: 1.999,00 €'),
+      ).toMatchObject({ metal: 'silver', fineness: undefined });
+    });
+  });
+
+  describe('scrape', () => {
+    it('should merge buy-back prices onto matching products', async () => {
+      const buybackParser = new TestParser('Test', [
+        { url: 'https://example.com/shop', metal: 'gold', productType: 'bar' },
+        {
+          url: 'https://example.com/otkup',
+          metal: 'gold',
+          productType: 'bar',
+          type: 'buyback',
+        },
+      ]);
+      buybackParser.pages = {
+        'https://example.com/shop': [
+          {
+            unit: 'gram',
+            weightGrams: 10,
+            productTitle: 'Poluga 10 g',
+            price: 1500,
+          },
+          {
+            unit: 'gram',
+            weightGrams: 20,
+            productTitle: 'Poluga 20 g',
+            price: 2900,
+          },
+        ],
+        'https://example.com/otkup': [
+          {
+            unit: 'gram',
+            weightGrams: 10,
+            productTitle: 'Otkup 10 g',
+            price: 1400,
+          },
+          {
+            unit: 'kg',
+            weightGrams: 1000,
+            productTitle: 'Otkup 1 kg',
+            price: 139000,
+          },
+        ],
+      };
+
+      const { prices } = await buybackParser.scrape();
+
+      expect(prices).toHaveLength(3);
+      expect(prices[0]).toMatchObject({ price: 1500, buyPrice: 1400 });
+      expect(prices[1].buyPrice).toBeUndefined();
+      expect(prices[2]).toMatchObject({
+        productTitle: 'Otkup 1 kg',
+        buyPrice: 139000,
+      });
+      expect(prices[2].price).toBeUndefined();
+    });
+
+    it('should tag entries of every source, keeping a detected metal', async () => {
+      const multiParser = new TestParser('Test', [
+        {
+          url: 'https://example.com/zlato/',
+          metal: 'gold',
+          productType: 'bar',
+        },
+        {
+          url: 'https://example.com/srebrnjaci/',
+          metal: 'silver',
+          productType: 'coin',
+        },
+      ]);
+      multiParser.pages = {
+        'https://example.com/zlato/': [
+          { unit: 'gram', productTitle: 'Zlatna poluga 1 g', price: 100 },
+          {
+            unit: 'gram',
+            productTitle: 'Srebrna poluga 100 g',
+            metal: 'silver',
+            price: 150,
+          },
+        ],
+        'https://example.com/srebrnjaci/': [
+          { unit: 'ounce', productTitle: 'Maple Leaf 1 oz', price: 40 },
+        ],
+      };
+
+      const { prices } = await multiParser.scrape();
+
+      expect(
+        prices.map(({ metal, productType }) => [metal, productType]),
+      ).toEqual([
+        ['gold', 'bar'],
+        ['silver', 'bar'],
+        ['silver', 'coin'],
+      ]);
+    });
+
+    it('should report fetch and parse phases with real page counts', async () => {
+      const listingParser = new TestParser('Test', [
+        { url: 'https://example.com/a/', metal: 'gold', productType: 'bar' },
+        { url: 'https://example.com/b/', metal: 'silver', productType: 'coin' },
+      ]);
+      listingParser.crawlListings = true;
+      listingParser.htmlPages = {
+        'https://example.com/a/': '<a rel="next" href="/a/page/2/">2</a>',
+        'https://example.com/a/page/2/': 'last page',
+      };
+      const updates: ProgressUpdate[] = [];
+
+      await listingParser.scrape((update) => updates.push(update));
+
+      expect(updates.map(({ phase, message }) => [phase, message])).toEqual([
+        ['fetch', 'Fetching page 1 of source 1/2'],
+        ['parse', 'Parsing page 1 of source 1/2'],
+        ['fetch', 'Fetching page 2 of source 1/2'],
+        ['parse', 'Parsing page 2 of source 1/2'],
+        ['fetch', 'Fetching page 1 of source 2/2'],
+        ['parse', 'Parsing page 1 of source 2/2'],
+      ]);
+      const progress = updates.map((update) => update.progress);
+      expect(progress).toEqual([...progress].sort((a, b) => a - b));
+      expect(progress[4]).toBe(45);
+    });
+
+    it('should reuse unchanged pages and mark the scrape not modified', async () => {
+      const url = 'https://example.com/zlato/';
+      const cachedParser = new TestParser('Test', [
+        { url, metal: 'gold', productType: 'bar' },
+      ]);
+      cachedParser.crawlListings = true;
+      cachedParser.parsed = [{ unit: 'gram', price: 100 }];
+      const parse = jest.spyOn(cachedParser, 'parse');
+
+      cachedParser.htmlPages = { [url]: '<ul>1 g</ul><script>n=1</script>' };
+      const first = await cachedParser.scrape();
+      cachedParser.htmlPages = { [url]: '<ul>1 g</ul><script>n=2</script>' };
+      const second = await cachedParser.scrape();
+
+      expect(first.notModified).toBeUndefined();
+      expect(second).toMatchObject({
+        notModified: true,
+        prices: [{ unit: 'gram', price: 100 }],
+      });
+      expect(parse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send validators and reuse the cached body on 304', async () => {
+      const get = jest
+        .fn()
+        .mockResolvedValueOnce({
+          status: 200,
+          data: '<p>v1</p>',
+          headers: { etag: '"abc"' },
+        })
+        .mockResolvedValueOnce({ status: 304, data: '', headers: {} });
+      const conditionalParser = new TestParser('Test', [
+        { url: 'https://example.com', metal: 'gold', productType: 'bar' },
+      ]);
+
+      const pages = [
+        await conditionalParser.fetchWith({ get }),
+        await conditionalParser.fetchWith({ get }),
+      ];
+
+      expect(pages).toEqual(['<p>v1</p>', '<p>v1</p>']);
+      expect(get).toHaveBeenLastCalledWith(
+        'https://example.com',
+        expect.objectContaining({ headers: { 'If-None-Match': '"abc"' } }),
+      );
+    });
+
+    it('should not retry blocked requests', async () => {
+      const get = jest.fn().mockRejectedValue(
+        new AxiosError('Forbidden', 'ERR_BAD_REQUEST', undefined, undefined, {
+          status: 403,
+        } as AxiosResponse),
+      );
+      const blockedParser = new TestParser('Test', [
+        { url: 'https://example.com', metal: 'gold', productType: 'bar' },
+      ]);
+
+      await expect(blockedParser.fetchWith({ get })).rejects.toMatchObject({
+        code: 'BLOCKED',
+        details: { url: 'https://example.com', httpStatus: 403, attempts: 1 },
+      });
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should tell empty sources from sources that stopped listing products', async () => {
+      const url = 'https://example.com/zlato/';
+      const emptyParser = new TestParser('Test', [
+        { url, metal: 'gold', productType: 'bar' },
+      ]);
+
+      const empty = await emptyParser.scrape();
+      emptyParser.pages = { [url]: [{ unit: 'gram', price: 100 }] };
+      await emptyParser.scrape();
+      emptyParser.pages = {};
+      const emptied = await emptyParser.scrape();
+
+      expect(empty.errorDetails).toMatchObject({ code: 'PARSE_EMPTY', url });
+      expect(emptied.errorDetails).toMatchObject({
+        code: 'LAYOUT_CHANGED',
+        url,
+      });
+    });
+  });
+
+  describe('mapStoreApiProduct', () => {
+    it('should convert minor-unit prices, sale flag and stock status', () => {
+      expect(
+        parser.storeApiEntry({
+          id: 1,
+          name: 'Zlatna poluga 100 g &#8211; Valcambi',
+          permalink: 'https://example.com/proizvod/poluga-100-g/',
+          on_sale: true,
+          is_in_stock: false,
+          prices: {
+            price: '1025000',
+            regular_price: '1050000',
+            sale_price: '1025000',
+            currency_code: 'EUR',
+            currency_minor_unit: 2,
+          },
+        }),
+      ).toMatchObject({
+        productTitle: 'Zlatna poluga 100 g – Valcambi',
+        weightGrams: 100,
+        brand: 'Valcambi',
+        price: 10250,
+        regularPrice: 10500,
+        discountedPrice: 10250,
+        inStock: false,
+      });
+    });
+  });
+
+  describe('parseSource', () => {
+    it('should prefer structured data over parsed fields and record sources', () => {
+      const structuredParser = new TestParser('Test', [
+        { url: 'https://example.com/shop', metal: 'gold', productType: 'bar' },
+      ]);
+      structuredParser.parsed = [
+        {
+          unit: 'gram',
+          weightGrams: 100,
+          productTitle: 'Zlatna poluga 100 g',
+          productLink: 'https://example.com/poluga-100-g/',
+          price: 10999,
+        },
+      ];
+      const html = `<script type="application/ld+json">${JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        name: 'Zlatna poluga 100 g',
+        url: 'https://example.com/poluga-100-g/',
+        sku: 'ZP100',
+        offers: {
+          '@type': 'Offer',
+          price: '10250.00',
+          priceCurrency: 'EUR',
+          availability: 'https://schema.org/OutOfStock',
+        },
+      })}</script>`;
+
+      const [entry] = structuredParser.parseWithStructuredData(html);
+
+      expect(entry).toMatchObject({
+        price: 10250,
+        sku: 'ZP100',
+        inStock: false,
+        weightGrams: 100,
+      });
+      expect(entry.fieldSources).toMatchObject({
+        price: 'json-ld',
+        sku: 'json-ld',
+        inStock: 'json-ld',
+      });
+      expect(entry.fieldSources?.weightGrams).toBeUndefined();
+    });
+
+    it('should not merge a structured product that matches no entry', () => {
+      const structuredParser = new TestParser('Test', [
+        { url: 'https://example.com/shop', metal: 'gold', productType: 'bar' },
+      ]);
+      structuredParser.parsed = [
+        {
+          unit: 'gram',
+          weightGrams: 100,
+          productTitle: 'Zlatna poluga 100 g',
+          productLink: 'https://example.com/poluga-100-g/',
+          price: 10999,
+        },
+      ];
+      const html = `<script type="application/ld+json">${JSON.stringify({
+        '@type': 'Product',
+        name: 'Zlatnik Bečka filharmonija',
+        url: 'https://example.com/becka-filharmonija/',
+        offers: { '@type': 'Offer', price: '2650.00' },
+      })}</script>`;
+
+      const [bar, coin] = structuredParser.parseWithStructuredData(html);
+
+      expect(bar.price).toBe(10999);
+      expect(bar.fieldSources).toBeUndefined();
+      expect(coin).toMatchObject({
+        productTitle: 'Zlatnik Bečka filharmonija',
+        price: 2650,
+      });
+    });
+  });
+
+  describe('pagination', () => {
+    const category = 'https://example.com/kategorija/zlatne-poluge/';
+
+    it('should find next pages from rel=next links and page numbers', () => {
+      expect(
+        parser.nextPage(
+          '<a class="next page-numbers" href="?paged=3">→</a>',
+          `${category}?paged=2`,
+        ),
+      ).toBe(`${category}?paged=3`);
+      expect(
+        parser.nextPage(
+          '<nav><a href="/kategorija/zlatne-poluge/page/2/">2</a></nav>',
+          category,
+        ),
+      ).toBe(`${category}page/2/`);
+      expect(parser.nextPage('<p>No pagination</p>', category)).toBeNull();
+    });
+
+    it('should merge and de-duplicate entries of all pages', async () => {
+      const pagedParser = new TestParser('Test', [
+        { url: category, metal: 'gold', productType: 'bar', maxPages: 2 },
+      ]);
+      pagedParser.htmlPages = {
+        [`${category}page/2/`]:
+          'page-2 <a href="/kategorija/zlatne-poluge/page/3/">3</a>',
+      };
+      pagedParser.pageEntries = {
+        'page-1 <a href="/kategorija/zlatne-poluge/page/2/">2</a>': [
+          { unit: 'gram', productLink: 'https://example.com/p/1', price: 100 },
+        ],
+        'page-2 <a href="/kategorija/zlatne-poluge/page/3/">3</a>': [
+          { unit: 'gram', productLink: 'https://example.com/p/1', price: 100 },
+          { unit: 'gram', productLink: 'https://example.com/p/2', price: 200 },
+        ],
+      };
+
+      const prices = await pagedParser.crawl(
+        'page-1 <a href="/kategorija/zlatne-poluge/page/2/">2</a>',
+      );
+
+      expect(prices.map((entry) => entry.productLink)).toEqual([
+        'https://example.com/p/1',
+        'https://example.com/p/2',
+      ]);
+    });
+  });
+
+  describe('enrichFromDetailPages', () => {
+    it('should apply product page data, count results and cache pages', async () => {
+      const detailParser = new TestParser('Test', [
+        { url: 'https://example.com/shop', metal: 'gold', productType: 'bar' },
+      ]);
+      const prices: PriceEntry[] = [
+        { unit: 'gram', productLink: 'https://example.com/p/1', price: 100 },
+        { unit: 'gram', productLink: 'https://example.com/p/2', price: 200 },
+      ];
+      const pages = {
+        'https://example.com/p/1': `
+          <div class="summary">
+            <p class="price"><span class="amount">105,50 €</span></p>
+            <p class="stock out-of-stock">Nema na zalihi</p>
+          </div>
+          <table class="woocommerce-product-attributes">
+            <tr><th>Čistoća</th><td>999,9</td></tr>
+          </table>`,
+      };
+
+      const stats = await detailParser.enrich(prices, pages);
+
+      expect(stats).toEqual({
+        attempted: 2,
+        succeeded: 1,
+        failed: 1,
+        cached: 0,
+      });
+      expect(prices[0]).toMatchObject({
+        price: 105.5,
+        inStock: false,
+        specs: { Čistoća: '999,9' },
+        fieldSources: { price: 'detail-page' },
+      });
+      expect(prices[1].price).toBe(200);
+
+      expect(await detailParser.enrich(prices, {})).toMatchObject({
+        succeeded: 1,
+        cached: 1,
+      });
+    });
+
+    it('should keep expired details when the refetch fails and log it', async () => {
+      const detailParser = new TestParser('Test', [
+        { url: 'https://example.com/shop', metal: 'gold', productType: 'bar' },
+      ]);
+      const logWarn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+      const prices: PriceEntry[] = [
+        { unit: 'gram', productLink: 'https://example.com/p/1', price: 100 },
+      ];
+      await detailParser.enrich(prices, {
+        'https://example.com/p/1':
+          '<div class="summary"><p class="price">105,50 €</p></div>',
+      });
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 31 * 60000);
+
+      const refreshed: PriceEntry[] = [
+        { unit: 'gram', productLink: 'https://example.com/p/1', price: 100 },
+      ];
+      const stats = await detailParser.enrich(refreshed, {});
+
+      expect(stats).toMatchObject({ succeeded: 1, failed: 0, cached: 0 });
+      expect(refreshed[0].price).toBe(105.5);
+      expect(logWarn).toHaveBeenCalledWith(
+        expect.stringContaining('https://example.com/p/1'),
+      );
+      jest.restoreAllMocks();
+    });
+
+    it('should stop enriching when the scrape is cancelled', async () => {
+      const detailParser = new TestParser('Test', [
+        { url: 'https://example.com/shop', metal: 'gold', productType: 'bar' },
+      ]);
+      const get = jest.fn().mockRejectedValue(new CanceledError());
+      const prices: PriceEntry[] = [1, 2, 3, 4].map((id) => ({
+        unit: 'gram',
+        productLink: `https://example.com/p/${id}`,
+        price: 100,
+      }));
+
+      await expect(detailParser.enrichWith(prices, { get })).rejects.toThrow(
+        ScrapeCancelledError,
+      );
+      // Each of the two workers stops after its first cancelled request
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+  });
+});
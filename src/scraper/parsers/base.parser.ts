@@ -1,86 +1,225 @@
-import axios, { AxiosInstance } from 'axios';
+import { Logger } from '@nestjs/common';
+import { AxiosInstance } from 'axios';
 import * as cheerio from 'cheerio';
+import { createHash } from 'crypto';
 import { scraperConfig } from '../config/scraper.config';
-import { PriceEntry, VendorPriceData } from '../interfaces/price.interface';
+import {
+  Metal,
+  PriceEntry,
+  ProductAttributes,
+  VendorPriceData,
+} from '../interfaces/price.interface';
+import {
+  SourceType,
+  VendorSource,
+} from '../interfaces/vendor-config.interface';
+import {
+  ProgressUpdate,
+  ScrapePhase,
+} from '../interfaces/progress.interface';
+import { StoreApiProduct } from '../interfaces/store-api.interface';
+import { StructuredProduct } from '../interfaces/structured-data.interface';
+import {
+  DetailPageOptions,
+  EnrichmentStats,
+  ProductDetails,
+} from '../interfaces/detail-page.interface';
+import { createHttpClient } from '../http/polite-http.client';
+import {
+  BlockedError,
+  LayoutChangedError,
+  NetworkError,
+  ParseEmptyError,
+  ScrapeCancelledError,
+  ScrapeError,
+  ValidationFailedError,
+  toRequestError,
+  toScrapeErrorPayload,
+} from '../errors/scrape.errors';
+import { getBackoffDelay } from '../http/backoff';
+import { fetchStoreApiProducts, getCategorySlug } from './store-api.client';
+import { extractStructuredProducts } from './structured-data.extractor';
+
+export const TROY_OUNCE_GRAMS = 31.1034768;
+
+// Parsers report progress up to this share, the scraper service validates in the rest
+export const PARSER_PROGRESS_SHARE = 90;
+// Part of the parser share used for detail pages, when the parser visits them
+const DETAIL_PAGES_PROGRESS_SHARE = 20;
+
+// Longer names first so e.g. 'Argor-Heraeus' wins over 'Heraeus'
+const KNOWN_BRANDS: Array<[RegExp, string]> = [
+  [/argor[\s-]*heraeus/i, 'Argor-Heraeus'],
+  [/heimerle\s*(?:\+|&|und)?\s*meule/i, 'Heimerle + Meule'],
+  [/royal\s+canadian\s+mint/i, 'Royal Canadian Mint'],
+  [/royal\s+mint/i, 'Royal Mint'],
+  [/perth\s+mint/i, 'Perth Mint'],
+  [/m(?:ü|ue|u)nze\s+(?:ö|oe|o)sterreich|austrian\s+mint/i, 'Münze Österreich'],
+  [/rand\s+refinery/i, 'Rand Refinery'],
+  [/c\.?\s*hafner/i, 'C. Hafner'],
+  [/valcambi/i, 'Valcambi'],
+  [/pamp/i, 'PAMP'],
+  [/heraeus/i, 'Heraeus'],
+  [/umicore/i, 'Umicore'],
+  [/degussa/i, 'Degussa'],
+  [/metalor/i, 'Metalor'],
+  [/geiger/i, 'Geiger'],
+  [/nadir/i, 'Nadir'],
+  [/credit\s+suisse/i, 'Credit Suisse'],
+  [/\bubs\b/i, 'UBS'],
+];
+
+// Plausible EUR prices per metal: per gram of a product, and of any listed product
+// Prices outside them are most likely extraction errors (e.g. a weight read as a price)
+const PRICE_BOUNDS: Record<
+  Metal,
+  { minPerGram: number; maxPerGram: number; minProductPrice: number }
+> = {
+  gold: { minPerGram: 50, maxPerGram: 500, minProductPrice: 100 },
+  silver: { minPerGram: 0.3, maxPerGram: 10, minProductPrice: 10 },
+  platinum: { minPerGram: 10, maxPerGram: 150, minProductPrice: 30 },
+  palladium: { minPerGram: 10, maxPerGram: 150, minProductPrice: 30 },
+};
+
+// Whole product words or a chemical symbol with its fineness ("Ag 999"), so a vendor
+// name like "Zlatarna ..." or a company suffix like "... AG" doesn't set the metal
+const METAL_KEYWORDS: Array<[RegExp, Metal]> = [
+  [/\bzlatn|\bzlato\b|\bgold|\bau\s*\d{3}/i, 'gold'],
+  [/\bsrebrn|\bsrebro\b|\bsilver|\bag\s*\d{3}/i, 'silver'],
+  [/\bplatin|\bpt\s*\d{3}/i, 'platinum'],
+  [/\bpaladij|\bpalladium|\bpd\s*\d{3}/i, 'palladium'],
+];
+
+const FINENESS_VALUES = '9999|999[.,]9|999|995|990|916[.,]?7?|900|750|585';
+// A bare "750" may as well be a weight, so fineness needs a marker around it
+const FINENESS_PATTERNS: RegExp[] = [
+  // "Au 999,9", "Ag 999", "čistoća: 999"
+  new RegExp(
+    `(?:\\b(?:au|ag|pt|pd)|čistoć[ae]|cistoc[ae]|finoć[ae]|fineness|purity)\\s*[:-]?\\s*(?:0[.,])?(${FINENESS_VALUES})(?!\\d)`,
+    'i',
+  ),
+  // "999‰", "585/1000"
+  new RegExp(
+    `(?:^|[^\\d.,])(?:0[.,])?(${FINENESS_VALUES})\\s*(?:‰|\\/\\s*1000|promila)`,
+    'i',
+  ),
+  // Written as a decimal no weight looks like without a unit: "999,9", "0.9999"
+  new RegExp(
+    `(?:^|[^\\d.,])(0[.,](?:9999|9167|999|995|990|916|900|750|585)|999[.,]9)(?!\\d)(?!\\s*(?:g|gr|kg|oz)\\b)`,
+    'i',
+  ),
+];
 
 export abstract class BaseParser {
+  protected readonly logger = new Logger(this.constructor.name);
   protected axiosInstance: AxiosInstance;
   protected vendorName: string;
-  protected vendorUrl: string;
+  protected vendorUrl: string; // URL of the source currently being scraped
+  protected sourceType: SourceType = 'sale'; // Type of the current source
+  protected sourceMetal?: Metal; // Metal of the current source, if it lists only one
+  protected storeApiCategory?: string; // Store API category of the current source
+  protected useStoreApi = false; // WooCommerce shops try the Store API before the HTML
+  protected useStructuredData = false; // Prefer schema.org JSON-LD/microdata over text heuristics
+  protected detailPages?: DetailPageOptions; // Set to visit product pages after each scrape
+  private detailPageCache = new Map<
+    string,
+    { fetchedAt: number; details: ProductDetails }
+  >();
+  protected sources: VendorSource[];
+  protected signal?: AbortSignal; // Cancels the requests of the running scrape
+  private progressCallback?: (update: ProgressUpdate) => void;
+  private progress = 0; // Last reported progress of the running scrape
+  private sourceIndex = 0; // Index of the source currently being scraped
+  // ETag/Last-Modified of fetched pages, with the body to reuse on 304
+  private validators = new Map<
+    string,
+    { etag?: string; lastModified?: string; html: string }
+  >();
+  // Content hash and entries of the last parse, per page
+  private parsedContent = new Map<
+    string,
+    { hash: string; entries: PriceEntry[] }
+  >();
+  private contentChecks = 0; // Pages checked in the running scrape
+  private unchangedContent = 0; // ...of which had the same content as last time
+  private sourceEntryCounts = new Map<string, number>(); // Entries per source in the last scrape
 
-  constructor(vendorName: string, vendorUrl: string) {
+  constructor(vendorName: string, sources: VendorSource[]) {
     this.vendorName = vendorName;
-    this.vendorUrl = vendorUrl;
-    this.axiosInstance = axios.create({
+    this.sources = sources;
+    this.vendorUrl = sources[0]?.url ?? '';
+    // Rate limits and robots.txt are enforced per host by the shared client
+    // Identify as the agent whose robots.txt rules we follow
+    this.axiosInstance = createHttpClient({
       timeout: scraperConfig.scraping.requestTimeout,
       headers: {
-        'User-Agent':
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+        'User-Agent': scraperConfig.scraping.politeness.robotsAgent,
       },
     });
+    // Every request of a scrape is aborted when its job is cancelled
+    this.axiosInstance.interceptors.request.use((config) => {
+      config.signal ??= this.signal;
+      return config;
+    });
   }
 
   /**
-   * Fetch HTML content from the vendor URL
-   * @param progressCallback Optional callback to report progress during fetching
+   * Fetch HTML content from the vendor URL, retrying failed requests
+   * Sends the page's last ETag/Last-Modified and reuses the cached body on 304 Not Modified
    */
-  protected async fetchHtml(progressCallback?: (progress: number) => void): Promise<string> {
-    let lastError: Error | null = null;
+  protected async fetchHtml(): Promise<string> {
+    let lastError: ScrapeError | undefined;
     const totalAttempts = scraperConfig.scraping.retryAttempts + 1;
 
-    const reportFetchProgress = (progress: number) => {
-      if (progressCallback) {
-        progressCallback(progress);
-        return this.delay(20);
-      }
-      return Promise.resolve();
-    };
-
     for (let attempt = 0; attempt < totalAttempts; attempt++) {
       try {
-        // Report progress at start of attempt - more granular
-        await reportFetchProgress(0);
-        await reportFetchProgress(5);
-        await reportFetchProgress(10);
-        await reportFetchProgress(15);
-        
-        // Preparing request
-        await reportFetchProgress(20);
-        await reportFetchProgress(25);
-        
-        // Make the actual request (this is async, so progress happens during wait)
-        const response = await this.axiosInstance.get(this.vendorUrl);
-        
-        // Report progress during response processing
-        await reportFetchProgress(60);
-        await reportFetchProgress(65);
-        await reportFetchProgress(70);
-        await reportFetchProgress(75);
-        await reportFetchProgress(80);
-        
-        // Processing response data
-        await reportFetchProgress(85);
-        await reportFetchProgress(90);
-        await reportFetchProgress(95);
-        await reportFetchProgress(100);
-        
+        const url = this.vendorUrl;
+        const cached = this.validators.get(url);
+        const response = await this.axiosInstance.get<string>(url, {
+          headers: {
+            ...(cached?.etag && { 'If-None-Match': cached.etag }),
+            ...(cached?.lastModified && {
+              'If-Modified-Since': cached.lastModified,
+            }),
+          },
+          validateStatus: (status) =>
+            (status >= 200 && status < 300) || status === 304,
+        });
+        if (response.status === 304 && cached) return cached.html;
+
+        const etag: unknown = response.headers['etag'];
+        const lastModified: unknown = response.headers['last-modified'];
+        if (typeof etag === 'string' || typeof lastModified === 'string') {
+          this.validators.set(url, {
+            etag: typeof etag === 'string' ? etag : undefined,
+            lastModified:
+              typeof lastModified === 'string' ? lastModified : undefined,
+            html: response.data,
+          });
+        } else {
+          this.validators.delete(url);
+        }
         return response.data;
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        lastError = toRequestError(error, this.vendorUrl, attempt + 1);
+        // Retrying won't get past a block and would make it worse
+        if (this.signal?.aborted || lastError instanceof BlockedError) break;
         if (attempt < scraperConfig.scraping.retryAttempts) {
-          // Report retry progress with more steps
-          await reportFetchProgress(40);
-          await reportFetchProgress(45);
-          await reportFetchProgress(50);
-          await reportFetchProgress(55);
-          await this.delay(scraperConfig.scraping.retryDelay);
+          this.reportProgress(
+            'fetch',
+            `Retrying ${this.vendorUrl} (attempt ${attempt + 2}/${totalAttempts})`,
+          );
+          await this.delay(
+            getBackoffDelay(scraperConfig.scraping.retryDelay, attempt),
+          );
         }
       }
     }
 
-    throw new Error(
-      `Failed to fetch ${this.vendorName} after ${scraperConfig.scraping.retryAttempts + 1} attempts: ${lastError?.message}`,
-    );
+    const error =
+      lastError ?? new NetworkError('No request made', { url: this.vendorUrl });
+    error.message = `Failed to fetch ${this.vendorName} after ${error.details.attempts ?? 0} attempts: ${error.message}`;
+    throw error;
   }
 
   /**
@@ -190,6 +329,146 @@ export abstract class BaseParser {
     return unitMap[normalized] || normalized;
   }
 
+  /**
+   * Extract structured product attributes (weight, metal, fineness, brand)
+   * Values found in the title win; the surrounding product text is only a fallback
+   */
+  protected extractProductAttributes(
+    title: string,
+    text = '',
+  ): ProductAttributes {
+    const weight = this.parseWeight(title) ?? this.parseWeight(text);
+
+    return {
+      unit: weight?.unit ?? 'gram',
+      weightGrams: weight?.grams,
+      metal: this.detectMetal(title) ?? this.detectMetal(text),
+      fineness: this.parseFineness(title) ?? this.parseFineness(text),
+      brand: this.detectBrand(title) ?? this.detectBrand(text),
+    };
+  }
+
+  /**
+   * Parse a product weight like "100 g", "31,1035 g", "1.000 g", "1 kg", "1 unca" or "1/10 oz"
+   */
+  protected parseWeight(text: string): { grams: number; unit: string } | null {
+    if (!text) return null;
+
+    // Fractional ounces: "1/10 oz", "1/4 unce"
+    const fractionMatch = text.match(
+      /(\d+)\s*\/\s*(\d+)\s*(?:troy\s*)?(?:oz|ounces?|unc[aei])(?![a-zčćšžđ])/i,
+    );
+    if (fractionMatch && Number(fractionMatch[2]) > 0) {
+      const ounces = Number(fractionMatch[1]) / Number(fractionMatch[2]);
+      return {
+        grams: this.roundGrams(ounces * TROY_OUNCE_GRAMS),
+        unit: 'ounce',
+      };
+    }
+
+    const match = text.match(
+      /(\d+(?:[.,]\d+)*)\s*(kilograms?|kilo|kg|grama?|grams?|gr|g|troy\s*oz|oz|ounces?|unc[aei])(?![a-zčćšžđ])/i,
+    );
+    if (!match) return null;
+
+    const amount = this.parseDecimal(match[1]);
+    if (amount === null || amount <= 0) return null;
+
+    const unitText = match[2].toLowerCase();
+    if (unitText.startsWith('k')) {
+      return { grams: this.roundGrams(amount * 1000), unit: 'kg' };
+    }
+    if (/oz|ounce|unc/.test(unitText)) {
+      return {
+        grams: this.roundGrams(amount * TROY_OUNCE_GRAMS),
+        unit: 'ounce',
+      };
+    }
+    return {
+      grams: this.roundGrams(amount),
+      unit: amount >= 1000 ? 'kg' : 'gram',
+    };
+  }
+
+  /**
+   * Parse a number written with either decimal comma or dot thousands separators
+   * "31,1035" -> 31.1035, "1.000" -> 1000, "2.5" -> 2.5
+   */
+  private parseDecimal(value: string): number | null {
+    let normalized = value;
+    if (value.includes(',') && value.includes('.')) {
+      normalized = value.replace(/\./g, '').replace(',', '.');
+    } else if (value.includes(',')) {
+      normalized = value.replace(',', '.');
+    } else if (/^\d{1,3}(?:\.\d{3})+$/.test(value)) {
+      normalized = value.replace(/\./g, '');
+    }
+
+    const parsed = parseFloat(normalized);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private roundGrams(grams: number): number {
+    return Math.round(grams * 10000) / 10000;
+  }
+
+  /**
+   * Parse millesimal fineness like "999,9", "0.9999", "Au 999" or "585/1000"
+   */
+  protected parseFineness(text: string): number | undefined {
+    if (!text) return undefined;
+
+    // Ignore prices so e.g. "1.999,00 €" is not read as fineness
+    const withoutPrices = text.replace(/\d[\d.,]*\s*(?:€|eur|kn)/gi, ' ');
+    const match = FINENESS_PATTERNS.map((pattern) =>
+      withoutPrices.match(pattern),
+    ).find((result) => result !== null);
+    if (!match) return undefined;
+
+    const digits = match[1].replace(/^0[.,]/, '').replace(/[.,]/g, '');
+    // Four significant digits (e.g. 9999, 9167) are tenths of a per mille
+    return digits.length === 4 ? Number(digits) / 10 : Number(digits);
+  }
+
+  /**
+   * Detect the precious metal from product text
+   */
+  protected detectMetal(text: string): Metal | undefined {
+    if (!text) return undefined;
+    return METAL_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1];
+  }
+
+  /**
+   * Check that a price is plausible for the weight of a product
+   * Products without a detected metal are checked against their source's metal, gold by default
+   */
+  protected isPlausiblePricePerGram(
+    price: number,
+    weightGrams: number,
+    metal?: Metal,
+  ): boolean {
+    const bounds = PRICE_BOUNDS[metal ?? this.sourceMetal ?? 'gold'];
+    const pricePerGram = price / weightGrams;
+    return (
+      pricePerGram >= bounds.minPerGram && pricePerGram <= bounds.maxPerGram
+    );
+  }
+
+  /**
+   * Lowest plausible price of a product of the current source's metal, used when the weight is unknown
+   */
+  protected getMinimumProductPrice(): number {
+    return PRICE_BOUNDS[this.sourceMetal ?? 'gold'].minProductPrice;
+  }
+
+  /**
+   * Detect a known refiner or mint from product text
+   */
+  protected detectBrand(text: string): string | undefined {
+    if (!text) return undefined;
+    return KNOWN_BRANDS.find(([pattern]) => pattern.test(text))?.[1];
+  }
+
   /**
    * Delay helper for retries and rate limiting
    */
@@ -197,6 +476,33 @@ export abstract class BaseParser {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  /**
+   * Report a phase of the running scrape; progress stays where it was unless given
+   */
+  protected reportProgress(
+    phase: ScrapePhase,
+    message: string,
+    progress = this.progress,
+  ): void {
+    this.progress = Math.min(100, Math.max(0, progress));
+    this.progressCallback?.({ phase, message, progress: this.progress });
+  }
+
+  /**
+   * Overall progress at a fraction (0-1) of the current source
+   * Sources share the parser progress equally, minus the part left for detail pages
+   */
+  private getSourceProgress(fraction: number): number {
+    const share =
+      PARSER_PROGRESS_SHARE -
+      (this.detailPages ? DETAIL_PAGES_PROGRESS_SHARE : 0);
+    return ((this.sourceIndex + fraction) / this.sources.length) * share;
+  }
+
+  private describeSource(): string {
+    return `source ${this.sourceIndex + 1}/${this.sources.length}`;
+  }
+
   /**
    * Get vendor name
    */
@@ -210,161 +516,817 @@ export abstract class BaseParser {
   abstract parse(html: string): PriceEntry[];
 
   /**
-   * Main method to scrape and return vendor price data
-   * @param progressCallback Optional callback to report progress (0-100)
+   * Parse a buy-back (otkup) page; the parsed price is used as the bid
+   * Parsers whose buy-back pages differ from their shop pages override this
+   */
+  protected parseBuyback(html: string): PriceEntry[] {
+    return this.parse(html);
+  }
+
+  /**
+   * Read a buy-back price table: product name in the first column, bid in the "otkup" column
+   * Tables without an otkup header are not buy-back tables and are skipped
+   */
+  protected parseBuybackTable(
+    html: string,
+    columns?: { title: string; price: string },
+  ): PriceEntry[] {
+    const $ = cheerio.load(html);
+    const entries: PriceEntry[] = [];
+
+    $('table').each((_, table) => {
+      const $rows = $(table).find('tr');
+      const headers = $rows
+        .first()
+        .find('th, td')
+        .toArray()
+        .map((cell) => $(cell).text());
+      const bidIndex = headers.findIndex((header) => /otkup/i.test(header));
+      if (bidIndex < 0) return;
+
+      $rows.each((_, row) => {
+        const $cells = $(row).find('td');
+        if ($cells.length < 2) return;
+
+        const $title = columns
+          ? $cells.filter(columns.title).first()
+          : $cells.first();
+        const $bid = columns
+          ? $cells.filter(columns.price).first()
+          : $cells.eq(bidIndex);
+        const productTitle = $title.text().trim();
+        const buyPrice = this.parsePrice($bid.text().trim());
+        if (!productTitle || !buyPrice) return;
+
+        const href = $title.find('a[href]').first().attr('href');
+        entries.push({
+          ...this.extractProductAttributes(productTitle),
+          buyPrice,
+          productTitle,
+          productLink: href
+            ? new URL(href, this.vendorUrl).toString()
+            : undefined,
+        });
+      });
+    });
+
+    return entries;
+  }
+
+  /**
+   * Main method to scrape all vendor sources and return merged price data
+   * Entries are tagged with the metal and product type of their source
+   * @param progressCallback Optional callback to report the phase and progress (0-100)
+   * @param signal Optional signal that aborts the scrape and its requests
    */
-  async scrape(progressCallback?: (progress: number) => void): Promise<VendorPriceData> {
-    const reportProgress = (progress: number) => {
-      if (progressCallback) {
-        progressCallback(Math.min(100, Math.max(0, progress)));
-        // Add small delay to ensure UI updates are visible
-        return this.delay(25);
+  async scrape(
+    progressCallback?: (update: ProgressUpdate) => void,
+    signal?: AbortSignal,
+  ): Promise<VendorPriceData> {
+    const prices: PriceEntry[] = [];
+    const buybackPrices: PriceEntry[] = [];
+    const sourceErrors: NonNullable<VendorPriceData['sourceErrors']> = [];
+    this.signal = signal;
+    this.progressCallback = progressCallback;
+    this.progress = 0;
+    this.contentChecks = 0;
+    this.unchangedContent = 0;
+
+    for (let i = 0; i < this.sources.length; i++) {
+      if (signal?.aborted) throw new ScrapeCancelledError();
+      const source = this.sources[i];
+      this.sourceIndex = i;
+      this.vendorUrl = source.url;
+      this.sourceType = source.type ?? 'sale';
+      this.sourceMetal = source.metal;
+      this.storeApiCategory = source.category ?? getCategorySlug(source.url);
+
+      try {
+        const entries = this.checkSourceEntries(
+          await this.scrapeSource(),
+          source.url,
+        );
+        const target = this.sourceType === 'buyback' ? buybackPrices : prices;
+        // The source's metal and type only fill in what the entry didn't detect itself
+        entries.forEach((entry) => {
+          target.push({
+            ...entry,
+            metal: entry.metal ?? source.metal,
+            productType: entry.productType ?? source.productType,
+          });
+        });
+      } catch (error) {
+        const details = toScrapeErrorPayload(error);
+        sourceErrors.push({ url: source.url, error: details.message, details });
       }
-      return Promise.resolve();
+    }
+
+    const result: VendorPriceData = {
+      vendor: this.vendorName,
+      url: this.sources[0]?.url ?? '',
+      scrapedAt: new Date(),
+      prices: this.mergeBuybackPrices(prices, buybackPrices),
     };
+    if (
+      this.contentChecks > 0 &&
+      this.unchangedContent === this.contentChecks &&
+      sourceErrors.length === 0
+    ) {
+      result.notModified = true;
+    }
+    if (signal?.aborted) throw new ScrapeCancelledError();
+    if (this.detailPages) {
+      result.enrichment = await this.enrichFromDetailPages(result.prices);
+    }
 
-    try {
-      // Step 1: Initialize (0-8%) - more granular
-      await reportProgress(0);
-      await reportProgress(1);
-      await reportProgress(2);
-      await reportProgress(3);
-      await reportProgress(4);
-      await reportProgress(5);
-      await reportProgress(6);
-      await reportProgress(7);
-      await reportProgress(8);
-
-      // Step 2: Prepare request (8-12%)
-      await reportProgress(8);
-      await reportProgress(9);
-      await reportProgress(10);
-      await reportProgress(11);
-      await reportProgress(12);
-
-      // Step 3: Fetch HTML (12-35%) - with very detailed progress
-      const html = await this.fetchHtml((fetchProgress) => {
-        // Map fetch progress (0-100) to our range (12-32%)
-        const mappedProgress = 12 + (fetchProgress / 100) * 20;
-        progressCallback?.(Math.min(100, Math.max(0, mappedProgress)));
+    // The vendor only fails when no source could be scraped
+    if (
+      sourceErrors.length > 0 &&
+      sourceErrors.length === this.sources.length
+    ) {
+      result.error = sourceErrors.map((e) => e.error).join('; ');
+      result.errorDetails = sourceErrors[0].details;
+    } else if (sourceErrors.length > 0) {
+      result.sourceErrors = sourceErrors;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fail sources that produced nothing usable
+   * A source that had entries in an earlier scrape and has none now most likely changed its layout
+   */
+  protected checkSourceEntries(
+    entries: PriceEntry[],
+    url: string,
+  ): PriceEntry[] {
+    const previousCount = this.sourceEntryCounts.get(url) ?? 0;
+    if (entries.length === 0 && previousCount > 0) {
+      throw new LayoutChangedError(
+        `No products found on ${url}, which listed ${previousCount} before`,
+        { url },
+      );
+    }
+    if (entries.length === 0) {
+      throw new ParseEmptyError(`No products found on ${url}`, { url });
+    }
+
+    const hasValidPrice = (entry: PriceEntry) =>
+      [entry.price, entry.sellPrice, entry.buyPrice].some(
+        (price) => typeof price === 'number' && price > 0 && isFinite(price),
+      );
+    if (!entries.some(hasValidPrice)) {
+      throw new ValidationFailedError(
+        `None of the ${entries.length} entries on ${url} has a valid price`,
+        { url },
+      );
+    }
+
+    this.sourceEntryCounts.set(url, entries.length);
+    return entries;
+  }
+
+  /**
+   * Visit the product pages selected by the parser's detail page rules and apply their data
+   * Pages are fetched with limited concurrency and cached between scrapes
+   */
+  protected async enrichFromDetailPages(
+    prices: PriceEntry[],
+  ): Promise<EnrichmentStats> {
+    const options = this.detailPages ?? {};
+    const defaults = scraperConfig.scraping.detailPages;
+    const stats: EnrichmentStats = {
+      attempted: 0,
+      succeeded: 0,
+      failed: 0,
+      cached: 0,
+    };
+
+    const links = Array.from(
+      new Set(
+        prices
+          .filter(
+            (entry) =>
+              entry.productLink && (!options.select || options.select(entry)),
+          )
+          .map((entry) => entry.productLink as string),
+      ),
+    ).slice(0, options.maxProducts ?? defaults.maxProducts);
+
+    const enrichStart = PARSER_PROGRESS_SHARE - DETAIL_PAGES_PROGRESS_SHARE;
+    let done = 0;
+    this.reportProgress(
+      'enrich',
+      `Fetching ${links.length} detail pages`,
+      enrichStart,
+    );
+
+    const enrich = async (link: string) => {
+      if (this.signal?.aborted) throw new ScrapeCancelledError();
+      stats.attempted++;
+      const cached = this.detailPageCache.get(link);
+      let details = cached?.details ?? null;
+      if (
+        cached &&
+        Date.now() - cached.fetchedAt < defaults.cacheTtlMinutes * 60000
+      ) {
+        stats.cached++;
+      } else {
+        try {
+          const response = await this.axiosInstance.get<string>(link);
+          details = this.parseDetailPage(response.data, link);
+          if (details) {
+            this.detailPageCache.set(link, { fetchedAt: Date.now(), details });
+          }
+        } catch (error) {
+          const requestError = toRequestError(error, link);
+          if (requestError instanceof ScrapeCancelledError) throw requestError;
+          // A failed refetch keeps the expired details rather than losing them
+          this.logger.warn(
+            `Detail page ${link} failed: ${requestError.message}`,
+          );
+          details = cached?.details ?? null;
+        }
+      }
+
+      done++;
+      this.reportProgress(
+        'enrich',
+        `Fetched detail page ${done}/${links.length}`,
+        enrichStart + (done / links.length) * DETAIL_PAGES_PROGRESS_SHARE,
+      );
+
+      if (!details) {
+        stats.failed++;
+        return;
+      }
+      stats.succeeded++;
+      prices.forEach((entry, index) => {
+        if (entry.productLink === link) {
+          prices[index] = this.applyProductDetails(entry, details);
+        }
       });
-      
-      // Post-fetch steps
-      await reportProgress(32);
-      await reportProgress(33);
-      await reportProgress(34);
-      await reportProgress(35);
-
-      // Step 4: Load HTML into Cheerio (35-42%)
-      await reportProgress(36);
-      await reportProgress(37);
-      await reportProgress(38);
-      await reportProgress(39);
-      const $ = cheerio.load(html);
-      await reportProgress(40);
-      await reportProgress(41);
-      await reportProgress(42);
-
-      // Step 5: Analyze HTML structure (42-48%)
-      await reportProgress(43);
-      await reportProgress(44);
-      await reportProgress(45);
-      await reportProgress(46);
-      await reportProgress(47);
-      await reportProgress(48);
-
-      // Step 6: Parse HTML - initial phase (48-55%)
-      await reportProgress(48);
-      await reportProgress(49);
-      await reportProgress(50);
-      await reportProgress(51);
-      await reportProgress(52);
-      
-      let prices: PriceEntry[] = [];
+    };
+
+    // Fixed number of workers pulling from a shared queue
+    const queue = [...links];
+    const workers = Math.min(
+      options.concurrency ?? defaults.concurrency,
+      links.length,
+    );
+    const worker = async () => {
+      for (let link = queue.shift(); link; link = queue.shift()) {
+        await enrich(link);
+      }
+    };
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    return stats;
+  }
+
+  /**
+   * Read price, stock, specs and images from a product page
+   * Handles schema.org data and the standard WooCommerce product template; override for other layouts
+   */
+  protected parseDetailPage(html: string, url: string): ProductDetails | null {
+    const $ = cheerio.load(html);
+    const details: ProductDetails = {};
+
+    const structured = extractStructuredProducts(html, url, (text) =>
+      this.parsePrice(text),
+    )[0];
+    const $price = $('.summary .price, .entry-summary .price').first();
+    const regularPrice = this.parsePrice(
+      $price.find('del .amount, del bdi, del').first().text(),
+    );
+    const salePrice = this.parsePrice(
+      $price.find('ins .amount, ins bdi, ins').first().text(),
+    );
+    const currentPrice =
+      salePrice ??
+      this.parsePrice(
+        $price.find('.amount, bdi').not('del *').first().text() ||
+          $price.text(),
+      );
+
+    details.price = structured?.price ?? currentPrice ?? undefined;
+    if (details.price && regularPrice && regularPrice > details.price) {
+      details.regularPrice = regularPrice;
+      details.discountedPrice = details.price;
+    }
+
+    const $stock = $('.summary .stock, .entry-summary .stock').first();
+    if (structured?.availability) {
+      details.inStock = /InStock|LimitedAvailability/i.test(
+        structured.availability,
+      );
+    } else if ($stock.length > 0) {
+      details.inStock = !$stock.hasClass('out-of-stock');
+    }
+
+    const specs: Record<string, string> = {};
+    $('.woocommerce-product-attributes tr, table.shop_attributes tr').each(
+      (_, row) => {
+        const label = $(row).find('th').text().trim();
+        const value = $(row).find('td').text().trim();
+        if (label && value) specs[label] = value;
+      },
+    );
+    if (Object.keys(specs).length > 0) details.specs = specs;
+
+    const images = $(
+      '.woocommerce-product-gallery__image a[href], meta[property="og:image"]',
+    )
+      .toArray()
+      .map((el) => $(el).attr('href') ?? $(el).attr('content'))
+      .filter((src): src is string => !!src)
+      .map((src) => new URL(src, url).toString());
+    if (images.length > 0) details.images = Array.from(new Set(images));
+
+    return Object.values(details).some((value) => value !== undefined)
+      ? details
+      : null;
+  }
+
+  /**
+   * Apply product page data to a listing entry; product page prices win
+   */
+  private applyProductDetails(
+    entry: PriceEntry,
+    details: ProductDetails,
+  ): PriceEntry {
+    const fieldSources = { ...entry.fieldSources };
+    const result: PriceEntry = { ...entry, fieldSources };
+    const set = <K extends keyof PriceEntry>(
+      field: K,
+      value: PriceEntry[K] | undefined,
+    ) => {
+      if (value === undefined) return;
+      result[field] = value;
+      fieldSources[field] = 'detail-page';
+    };
+
+    const price = details.discountedPrice ?? details.price;
+    set('price', price);
+    set('sellPrice', price);
+    set('regularPrice', details.regularPrice);
+    set('discountedPrice', details.discountedPrice);
+    set('inStock', details.inStock);
+    set('specs', details.specs);
+    set('images', details.images);
+
+    return result;
+  }
+
+  /**
+   * Merge buy-back (otkup) prices onto the matching products as buyPrice
+   * Buy-back entries without a matching product are kept as bid-only entries
+   */
+  private mergeBuybackPrices(
+    prices: PriceEntry[],
+    buybackPrices: PriceEntry[],
+  ): PriceEntry[] {
+    const unmatched: PriceEntry[] = [];
+
+    buybackPrices.forEach((buyback) => {
+      const bid = buyback.buyPrice ?? buyback.price ?? buyback.sellPrice;
+      if (!bid) return;
+
+      const candidates = prices.filter(
+        (entry) =>
+          entry.buyPrice === undefined && this.isSameProduct(entry, buyback),
+      );
+      // Prefer a product of the same brand over one with an unknown brand
+      const match =
+        candidates.find((entry) => entry.brand === buyback.brand) ??
+        candidates[0];
+
+      if (match) {
+        match.buyPrice = bid;
+      } else {
+        unmatched.push({
+          ...buyback,
+          buyPrice: bid,
+          sellPrice: undefined,
+          price: undefined,
+          regularPrice: undefined,
+          discountedPrice: undefined,
+          offers: undefined,
+          quantityTiers: undefined,
+        });
+      }
+    });
+
+    return [...prices, ...unmatched];
+  }
+
+  /**
+   * Whether a sale entry and a buy-back entry describe the same product
+   * Matched by metal, type and weight; titles are only compared when weight is unknown
+   */
+  private isSameProduct(entry: PriceEntry, buyback: PriceEntry): boolean {
+    if (
+      entry.metal !== buyback.metal ||
+      entry.productType !== buyback.productType
+    ) {
+      return false;
+    }
+    if (entry.brand && buyback.brand && entry.brand !== buyback.brand) {
+      return false;
+    }
+    if (entry.weightGrams && buyback.weightGrams) {
+      return entry.weightGrams === buyback.weightGrams;
+    }
+
+    const normalize = (title?: string) =>
+      (title ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+    return (
+      !!entry.productTitle &&
+      normalize(entry.productTitle) === normalize(buyback.productTitle)
+    );
+  }
+
+  /**
+   * Follow the listing's pagination from the first page, up to the page limit
+   * Entries of all pages are merged and de-duplicated
+   */
+  protected async crawlNextPages(
+    firstPageHtml: string,
+    firstPagePrices: PriceEntry[],
+  ): Promise<PriceEntry[]> {
+    const sourceUrl = this.vendorUrl;
+    const maxPages =
+      this.sources.find((source) => source.url === sourceUrl)?.maxPages ??
+      scraperConfig.scraping.maxPages;
+    const visited = new Set([sourceUrl]);
+    const prices = [...firstPagePrices];
+    let html = firstPageHtml;
+
+    try {
+      for (let page = 2; page <= maxPages; page++) {
+        const nextUrl = this.findNextPageUrl(html, this.vendorUrl);
+        if (!nextUrl || visited.has(nextUrl)) break;
+        visited.add(nextUrl);
+
+        // Links on each page are resolved against that page's URL
+        this.vendorUrl = nextUrl;
+        this.reportProgress(
+          'fetch',
+          `Fetching page ${page} of ${this.describeSource()}`,
+          this.getSourceProgress((page - 1) / maxPages),
+        );
+        try {
+          html = await this.fetchHtml();
+        } catch (error) {
+          // Keep the pages we already have
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.warn(
+            `Stopped paging ${this.vendorName} at ${nextUrl}: ${errorMessage}`,
+          );
+          break;
+        }
+        this.reportProgress(
+          'parse',
+          `Parsing page ${page} of ${this.describeSource()}`,
+        );
+        prices.push(...this.parsePage(html));
+      }
+    } finally {
+      this.vendorUrl = sourceUrl;
+    }
+
+    const seen = new Set<string>();
+    return prices.filter((entry) => {
+      const key =
+        entry.productLink ??
+        `${entry.productTitle}-${entry.unit}-${entry.price ?? entry.sellPrice}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Find the next listing page: an explicit "next" link first, then a link
+   * to the next page number (WooCommerce "/page/N/" or "?paged=N")
+   */
+  protected findNextPageUrl(html: string, pageUrl: string): string | null {
+    const $ = cheerio.load(html);
+    const resolve = (href?: string) => {
+      if (!href) return null;
       try {
-        await reportProgress(53);
-        await reportProgress(54);
-        
-        // Start parsing
-        await reportProgress(55);
-        prices = this.parse(html);
-        
-        // Step 7: Processing parsed data (55-72%)
-        await reportProgress(56);
-        await reportProgress(57);
-        await reportProgress(58);
-        await reportProgress(59);
-        await reportProgress(60);
-        
-        await reportProgress(61);
-        await reportProgress(62);
-        await reportProgress(63);
-        await reportProgress(64);
-        await reportProgress(65);
-        
-        await reportProgress(66);
-        await reportProgress(67);
-        await reportProgress(68);
-        await reportProgress(69);
-        await reportProgress(70);
-        
-        await reportProgress(71);
-        await reportProgress(72);
-
-        // Step 8: Validate and process results (72-85%)
-        await reportProgress(73);
-        await reportProgress(74);
-        await reportProgress(75);
-        await reportProgress(76);
-        await reportProgress(77);
-        await reportProgress(78);
-        await reportProgress(79);
-        await reportProgress(80);
-        
-        await reportProgress(81);
-        await reportProgress(82);
-        await reportProgress(83);
-        await reportProgress(84);
-        await reportProgress(85);
-      } catch (parseError) {
-        await reportProgress(85);
-        throw parseError;
+        return new URL(href, pageUrl).toString();
+      } catch {
+        return null;
       }
+    };
 
-      // Step 9: Format and structure data (85-93%)
-      await reportProgress(86);
-      await reportProgress(87);
-      await reportProgress(88);
-      await reportProgress(89);
-      await reportProgress(90);
-      await reportProgress(91);
-      await reportProgress(92);
-      await reportProgress(93);
-
-      // Step 10: Finalize (93-100%)
-      await reportProgress(94);
-      await reportProgress(95);
-      await reportProgress(96);
-      await reportProgress(97);
-      await reportProgress(98);
-      await reportProgress(99);
-      await reportProgress(100);
+    const nextLink = resolve(
+      $('link[rel="next"]').attr('href') ??
+        $(
+          'a[rel="next"], a.next.page-numbers, .pagination a.next, .woocommerce-pagination a.next',
+        )
+          .first()
+          .attr('href'),
+    );
+    if (nextLink) return nextLink;
 
-      return {
-        vendor: this.vendorName,
-        url: this.vendorUrl,
-        scrapedAt: new Date(),
-        prices,
-      };
+    const url = new URL(pageUrl);
+    const pathMatch = url.pathname.match(/\/page\/(\d+)\/?$/);
+    const currentPage = Number(
+      pathMatch?.[1] ?? url.searchParams.get('paged') ?? 1,
+    );
+    const candidates = [
+      new URL(
+        pathMatch
+          ? url.pathname.replace(/\/page\/\d+\/?$/, `/page/${currentPage + 1}/`)
+          : `${url.pathname.replace(/\/?$/, '/')}page/${currentPage + 1}/`,
+        url,
+      ).toString(),
+    ];
+    const paged = new URL(pageUrl);
+    paged.searchParams.set('paged', String(currentPage + 1));
+    candidates.push(paged.toString());
+
+    // Only follow page numbers the page actually links to
+    const links = new Set(
+      $('a[href]')
+        .toArray()
+        .map((a) => resolve($(a).attr('href'))),
+    );
+    return candidates.find((candidate) => links.has(candidate)) ?? null;
+  }
+
+  /**
+   * Parse fetched HTML of the current source with the vendor's parser
+   * Structured data, when enabled and present, overrides the parsed fields
+   */
+  protected parseSource(html: string): PriceEntry[] {
+    const prices =
+      this.sourceType === 'buyback'
+        ? this.parseBuyback(html)
+        : this.parse(html);
+    if (!this.useStructuredData) return prices;
+
+    return this.mergeStructuredData(
+      prices,
+      extractStructuredProducts(html, this.vendorUrl, (text) =>
+        this.parsePrice(text),
+      ).filter(
+        (product) =>
+          product.price !== undefined &&
+          (!product.priceCurrency ||
+            product.priceCurrency === scraperConfig.spot.currency),
+      ),
+    );
+  }
+
+  /**
+   * Apply structured products to the parsed entries they describe
+   * Structured products without a parsed counterpart are added as new entries
+   */
+  private mergeStructuredData(
+    prices: PriceEntry[],
+    products: StructuredProduct[],
+  ): PriceEntry[] {
+    const merged = [...prices];
+    const normalizeUrl = (url?: string) =>
+      url?.replace(/[?#].*$/, '').replace(/\/$/, '');
+    const normalizeTitle = (title?: string) =>
+      title?.toLowerCase().replace(/\s+/g, ' ').trim();
+
+    products.forEach((product) => {
+      // Only a matching URL or name ties a structured product to an entry
+      const index = merged.findIndex(
+        (entry) =>
+          (!!product.url &&
+            normalizeUrl(entry.productLink) === normalizeUrl(product.url)) ||
+          (!!product.name &&
+            normalizeTitle(entry.productTitle) ===
+              normalizeTitle(product.name)),
+      );
+
+      if (index >= 0) {
+        merged[index] = this.applyStructuredProduct(merged[index], product);
+      } else if (product.name) {
+        merged.push(
+          this.applyStructuredProduct(
+            this.extractProductAttributes(product.name),
+            product,
+          ),
+        );
+      }
+    });
+
+    return merged;
+  }
+
+  /**
+   * Overwrite an entry's fields with the structured product's and record their source
+   */
+  private applyStructuredProduct(
+    entry: PriceEntry,
+    product: StructuredProduct,
+  ): PriceEntry {
+    const fieldSources = { ...entry.fieldSources };
+    const result: PriceEntry = { ...entry, fieldSources };
+    const set = <K extends keyof PriceEntry>(
+      field: K,
+      value: PriceEntry[K] | undefined,
+    ) => {
+      if (value === undefined) return;
+      result[field] = value;
+      fieldSources[field] = product.source;
+    };
+
+    if (!entry.productTitle) set('productTitle', product.name);
+    if (!entry.brand && product.brand) {
+      set('brand', this.detectBrand(product.brand) ?? product.brand);
+    }
+    set('productLink', product.url);
+    set('sku', product.sku);
+    set('price', product.price);
+    set('sellPrice', product.price);
+    if (product.availability) {
+      set(
+        'inStock',
+        /InStock|LimitedAvailability|OnlineOnly|InStoreOnly/i.test(
+          product.availability,
+        ),
+      );
+    }
+
+    // Keep the crossed-out HTML price only if it is still above the structured price
+    if (product.price !== undefined) {
+      if (result.regularPrice && result.regularPrice > product.price) {
+        set('discountedPrice', product.price);
+      } else {
+        result.regularPrice = undefined;
+        result.discountedPrice = undefined;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a listing page (this.vendorUrl), skipped when its content is unchanged
+   */
+  protected parsePage(html: string): PriceEntry[] {
+    return this.parseUnlessUnchanged(
+      this.vendorUrl,
+      this.getContentFragment(html),
+      () => this.parseSource(html),
+    );
+  }
+
+  /**
+   * Part of a page whose changes matter for prices
+   * Drops scripts (except JSON-LD), styles and comments, which carry nonces and timestamps
+   */
+  protected getContentFragment(html: string): string {
+    const $ = cheerio.load(html);
+    $('script:not([type="application/ld+json"]), style, noscript').remove();
+    $('*')
+      .contents()
+      .filter((_, node) => node.type === 'comment')
+      .remove();
+    return $('body').html() ?? html;
+  }
+
+  /**
+   * Reuse the entries of the last parse when the content hash is the same
+   */
+  private parseUnlessUnchanged(
+    key: string,
+    content: string,
+    parse: () => PriceEntry[],
+  ): PriceEntry[] {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const previous = this.parsedContent.get(key);
+    this.contentChecks++;
+
+    if (previous?.hash === hash) {
+      this.unchangedContent++;
+      return previous.entries.map((entry) => ({ ...entry }));
+    }
+    const entries = parse();
+    this.parsedContent.set(key, {
+      hash,
+      entries: entries.map((entry) => ({ ...entry })),
+    });
+    return entries;
+  }
+
+  /**
+   * Fetch the current source's category from the WooCommerce Store API
+   * Returns no entries when the API is disabled or empty, so the HTML is parsed instead
+   */
+  protected async scrapeStoreApi(): Promise<PriceEntry[]> {
+    try {
+      const products = await fetchStoreApiProducts(
+        this.axiosInstance,
+        this.vendorUrl,
+        this.storeApiCategory,
+        scraperConfig.scraping.storeApi,
+      );
+      return this.parseUnlessUnchanged(
+        `store-api:${this.vendorUrl}`,
+        JSON.stringify(products),
+        () =>
+          products
+            .map((product) => this.mapStoreApiProduct(product))
+            .filter((entry): entry is PriceEntry => entry !== null),
+      );
     } catch (error) {
-      await reportProgress(100); // Mark as complete even on error
-      return {
-        vendor: this.vendorName,
-        url: this.vendorUrl,
-        scrapedAt: new Date(),
-        prices: [],
-        error: error instanceof Error ? error.message : String(error),
-      };
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Store API unavailable for ${this.vendorName}, falling back to HTML: ${errorMessage}`,
+      );
+      return [];
     }
   }
+
+  /**
+   * Map a Store API product to a price entry
+   * Prices come in minor units, e.g. "1025000" with 2 minor units is 10250.00
+   */
+  protected mapStoreApiProduct(product: StoreApiProduct): PriceEntry | null {
+    const divisor = 10 ** (product.prices.currency_minor_unit ?? 2);
+    const toPrice = (value: string) => {
+      const price = Number(value) / divisor;
+      return isNaN(price) || price <= 0 ? undefined : price;
+    };
+
+    const price = toPrice(product.prices.price);
+    if (!price) return null;
+    const regularPrice = toPrice(product.prices.regular_price);
+    const onSale = product.on_sale && !!regularPrice && regularPrice > price;
+
+    // Names and descriptions are HTML
+    const productTitle = cheerio.load(product.name).root().text().trim();
+    const description = cheerio
+      .load(product.short_description ?? '')
+      .root()
+      .text();
+
+    return {
+      ...this.extractProductAttributes(productTitle, description),
+      price,
+      sellPrice: price,
+      regularPrice: onSale ? regularPrice : undefined,
+      discountedPrice: onSale ? price : undefined,
+      productTitle,
+      productLink: product.permalink,
+      inStock: product.is_in_stock,
+      fieldSources: {
+        price: 'store-api',
+        sellPrice: 'store-api',
+        regularPrice: onSale ? 'store-api' : undefined,
+        discountedPrice: onSale ? 'store-api' : undefined,
+        productTitle: 'store-api',
+        productLink: 'store-api',
+        inStock: 'store-api',
+      },
+    };
+  }
+
+  /**
+   * Fetch and parse the current source (this.vendorUrl)
+   */
+  protected async scrapeSource(): Promise<PriceEntry[]> {
+    // Structured Store API data first; buy-back pages are never in the shop catalog
+    if (
+      this.useStoreApi &&
+      scraperConfig.scraping.storeApi.enabled &&
+      this.sourceType === 'sale'
+    ) {
+      this.reportProgress(
+        'fetch',
+        `Fetching Store API products of ${this.describeSource()}`,
+        this.getSourceProgress(0),
+      );
+      const entries = await this.scrapeStoreApi();
+      if (entries.length > 0) {
+        this.reportProgress(
+          'parse',
+          `Mapped ${entries.length} Store API products of ${this.describeSource()}`,
+          this.getSourceProgress(1),
+        );
+        return entries;
+      }
+    }
+
+    this.reportProgress(
+      'fetch',
+      `Fetching page 1 of ${this.describeSource()}`,
+      this.getSourceProgress(0),
+    );
+    const html = await this.fetchHtml();
+    this.reportProgress('parse', `Parsing page 1 of ${this.describeSource()}`);
+    return this.crawlNextPages(html, this.parsePage(html));
+  }
 }
@@ -0,0 +1,67 @@
+import { CentarZlataParser } from './centar-zlata.parser';
+
+// Otkup table with the shop price next to the bid (centarzlata.com not yet confirmed)
+const BUYBACK_PAGE = `
+<table>
+  <tr><td>Proizvod</td><td>Otkupna cijena</td><td>Prodajna cijena</td></tr>
+  <tr><td>Zlatna poluga 5 g</td><td>702,50 €</td><td>745,00 €</td></tr>
+  <tr><td>Zlatna poluga 20 g</td><td>2.790,00 €</td><td>2.915,30 €</td></tr>
+</table>`;
+
+// Platinum bar listing; the title names no metal, so it comes from the source
+const PLATINUM_BAR_PAGE = `
+<ul class="products">
+  <li class="product">
+    <h2 class="woocommerce-loop-product__title"><a href="/proizvod/valcambi-poluga-10-g/">Valcambi poluga 10 g</a></h2>
+    <span class="price"><span class="woocommerce-Price-amount amount"><bdi>395,00 €</bdi></span></span>
+  </li>
+</ul>`;
+
+describe('CentarZlataParser', () => {
+  const parser = new CentarZlataParser('Centar Zlata', [
+    {
+      url: 'https://www.centarzlata.com/otkup-investicijskog-zlata/',
+      metal: 'gold',
+      productType: 'bar',
+      type: 'buyback',
+    },
+  ]);
+
+  it('should read the otkup column, not the shop price', () => {
+    const entries = parser['parseBuyback'](BUYBACK_PAGE);
+
+    expect(
+      entries.map(({ weightGrams, buyPrice, price }) => ({
+        weightGrams,
+        buyPrice,
+        price,
+      })),
+    ).toEqual([
+      { weightGrams: 5, buyPrice: 702.5, price: undefined },
+      { weightGrams: 20, buyPrice: 2790, price: undefined },
+    ]);
+  });
+
+  it('should take the metal of a platinum source whose titles name none', async () => {
+    const platinumParser = new CentarZlataParser('Centar Zlata', [
+      {
+        url: 'https://www.centarzlata.com/kategorija/investicijska-platina/platinske-poluge/',
+        metal: 'platinum',
+        productType: 'bar',
+      },
+    ]);
+    platinumParser['useStoreApi'] = false;
+    platinumParser['fetchHtml'] = () => Promise.resolve(PLATINUM_BAR_PAGE);
+
+    const { prices } = await platinumParser.scrape();
+
+    expect(prices).toEqual([
+      expect.objectContaining({
+        productTitle: 'Valcambi poluga 10 g',
+        metal: 'platinum',
+        productType: 'bar',
+        price: 395,
+      }),
+    ]);
+  });
+});
@@ -1,18 +1,76 @@
 import * as cheerio from 'cheerio';
 import { BaseParser } from './base.parser';
-import { PriceEntry, VendorPriceData } from '../interfaces/price.interface';
+import { RegisterParser } from './parser.registry';
+import { PriceEntry } from '../interfaces/price.interface';
+import {
+  DetailPageOptions,
+  ProductDetails,
+} from '../interfaces/detail-page.interface';
 
 // Import cheerio types for proper typing
 type CheerioAPI = ReturnType<typeof cheerio.load>;
 
+@RegisterParser({
+  id: 'centar-zlata',
+  name: 'Centar Zlata',
+  sources: [
+    {
+      url: 'https://www.centarzlata.com/kategorija/investicijsko-zlato/zlatne-poluge/',
+      metal: 'gold',
+      productType: 'bar',
+    },
+    {
+      url: 'https://www.centarzlata.com/kategorija/investicijsko-zlato/zlatnici/',
+      metal: 'gold',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.centarzlata.com/kategorija/investicijsko-srebro/srebrne-poluge/',
+      metal: 'silver',
+      productType: 'bar',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.centarzlata.com/kategorija/investicijsko-srebro/srebrnjaci/',
+      metal: 'silver',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.centarzlata.com/kategorija/investicijska-platina/platinske-poluge/',
+      metal: 'platinum',
+      productType: 'bar',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.centarzlata.com/otkup-investicijskog-zlata/',
+      metal: 'gold',
+      productType: 'bar',
+      type: 'buyback',
+      unconfirmed: true,
+    },
+  ],
+  capabilities: ['buyback-prices', 'detail-pages', 'store-api'],
+})
 export class CentarZlataParser extends BaseParser {
+  protected useStoreApi = true;
+
+  // Visit product pages of 1g products - their listing prices lag behind
+  protected detailPages: DetailPageOptions = {
+    select: (entry) =>
+      !!entry.productTitle?.toLowerCase().includes('1g') &&
+      entry.unit === 'gram',
+    maxProducts: 10,
+  };
+
   /**
-   * Fetch all prices (regular, discounted, current) from individual product page for accuracy
+   * Read all prices (regular, discounted, current) from the product page for accuracy
+   * Stock, specs and images come from the generic product page parsing
    */
-  private async fetchProductPrices(productUrl: string): Promise<{ regularPrice?: number; discountedPrice?: number; currentPrice?: number } | null> {
+  protected parseDetailPage(html: string, url: string): ProductDetails | null {
     try {
-      const response = await this.axiosInstance.get(productUrl);
-      const $ = cheerio.load(response.data);
+      const $ = cheerio.load(html);
       
       let regularPrice: number | null = null;
       let discountedPrice: number | null = null;
@@ -101,18 +159,26 @@ export class CentarZlataParser extends BaseParser {
       // Return all found prices
       if (regularPrice || discountedPrice || currentPrice) {
         return {
+          ...super.parseDetailPage(html, url),
           regularPrice: regularPrice !== null && regularPrice > 0 ? regularPrice : undefined,
           discountedPrice: discountedPrice !== null && discountedPrice > 0 ? discountedPrice : undefined,
-          currentPrice: currentPrice !== null && currentPrice > 0 ? currentPrice : undefined,
+          price: currentPrice !== null && currentPrice > 0 ? currentPrice : undefined,
         };
       }
     } catch (error) {
-      // If fetching product page fails, return null
+      // If parsing the product page fails, keep the listing page price
       return null;
     }
     return null;
   }
 
+  /**
+   * The otkup page lists bids in a table next to the shop prices, read only the otkup column
+   */
+  protected parseBuyback(html: string): PriceEntry[] {
+    return this.parseBuybackTable(html);
+  }
+
   parse(html: string): PriceEntry[] {
     const $ = cheerio.load(html);
     const prices: PriceEntry[] = [];
@@ -375,79 +441,8 @@ export class CentarZlataParser extends BaseParser {
         const mainPrice = discountedPrice || currentPrice || regularPrice;
         
         if (mainPrice !== null) {
-            // Extract weight/unit from product title or text FIRST
-            let unit = 'gram';
-            let weight: number | null = null;
-            
-            // Try to extract weight from title/text
-            const textLower = (productTitle + ' ' + productText).toLowerCase();
-            
-            // Match patterns like "1g", "100g", "1 kg", "31,1035 g", "1 unca", etc.
-            const weightPatterns = [
-              /(\d+(?:[.,]\d+)?)\s*(g|gram|gr)\b/i,
-              /(\d+(?:[.,]\d+)?)\s*(kg|kilogram|kilo)\b/i,
-              /(\d+(?:[.,]\d+)?)\s*(oz|ounce|unca|unca troy)\b/i,
-              /~?(\d+(?:[.,]\d+)?)\s*g/i, // like "~31,1035 g"
-            ];
-            
-            for (const pattern of weightPatterns) {
-              const match = textLower.match(pattern);
-              if (match) {
-                weight = parseFloat(match[1].replace(/\./g, '').replace(',', '.'));
-                const unitStr = match[2].toLowerCase();
-                
-                // Normalize unit
-                if (unitStr.includes('kg') || unitStr.includes('kilogram') || unitStr.includes('kilo')) {
-                  unit = 'kg';
-                } else if (unitStr.includes('oz') || unitStr.includes('ounce') || unitStr.includes('unca')) {
-                  unit = 'ounce';
-                } else {
-                  unit = 'gram';
-                  
-                  // Convert grams to kg if >= 1000
-                  if (weight && weight >= 1000) {
-                    weight = weight / 1000;
-                    unit = 'kg';
-                  }
-                }
-                break;
-              }
-            }
-
-            // If no weight found, try to infer from common patterns
-            if (!weight) {
-              if (textLower.includes('1000') || textLower.includes('1.000')) {
-                unit = 'kg';
-                weight = 1;
-              } else if (textLower.includes('500')) {
-                unit = 'gram';
-                weight = 500;
-              } else if (textLower.includes('250')) {
-                unit = 'gram';
-                weight = 250;
-              } else if (textLower.includes('100')) {
-                unit = 'gram';
-                weight = 100;
-              } else if (textLower.includes('50')) {
-                unit = 'gram';
-                weight = 50;
-              } else if (textLower.includes('31') || textLower.includes('unca')) {
-                unit = 'ounce';
-                weight = 1;
-              } else if (textLower.includes('20')) {
-                unit = 'gram';
-                weight = 20;
-              } else if (textLower.includes('10')) {
-                unit = 'gram';
-                weight = 10;
-              } else if (textLower.includes('5')) {
-                unit = 'gram';
-                weight = 5;
-              } else if (textLower.includes('1 g') || textLower.match(/^1g|^1\s+g/)) {
-                unit = 'gram';
-                weight = 1;
-              }
-            }
+            // Extract weight, metal, fineness and brand from title/text FIRST
+            const attributes = this.extractProductAttributes(productTitle, productText);
 
             // Show scraped prices as-is, without normalization to per-unit
             // The price represents the actual product price (e.g., 80,000 EUR for a 1kg bar)
@@ -459,7 +454,7 @@ export class CentarZlataParser extends BaseParser {
 
             // Store all price types
             prices.push({
-              unit,
+              ...attributes,
               price: mainPrice, // Main/current price
               sellPrice: mainPrice, // For compatibility
               regularPrice: regularPrice !== null && regularPrice > 0 ? regularPrice : undefined,
@@ -480,7 +475,11 @@ export class CentarZlataParser extends BaseParser {
         for (const match of allEuropeanMatches) {
           if (match[1]) {
             const parsed = this.parsePrice(match[1] + ' €');
-            if (parsed !== null && parsed > 100 && parsed < 100000) {
+            if (
+              parsed !== null &&
+              parsed > this.getMinimumProductPrice() &&
+              parsed < 100000
+            ) {
               europeanPrices.push(parsed);
             }
           }
@@ -513,59 +512,4 @@ export class CentarZlataParser extends BaseParser {
 
     return uniquePrices;
   }
-
-  /**
-   * Override scrape method to visit product pages for accurate current prices
-   */
-  async scrape(progressCallback?: (progress: number) => void): Promise<VendorPriceData> {
-    // First, get prices from listing page using parent scrape method
-    const result = await super.scrape(progressCallback);
-    
-    // For key products (1g products especially), visit product pages to get accurate current prices
-    // This ensures we get the most up-to-date prices from the actual product page
-    const keyProducts = result.prices.filter(p => 
-      p.productLink && 
-      p.productTitle?.toLowerCase().includes('1g') &&
-      p.unit === 'gram'
-    ).slice(0, 10); // Limit to first 10 1g products to avoid too many requests
-    
-    // Update prices from product pages (get all price types)
-    for (let i = 0; i < keyProducts.length; i++) {
-      const product = keyProducts[i];
-      if (product.productLink) {
-        try {
-          const productPagePrices = await this.fetchProductPrices(product.productLink);
-          if (productPagePrices) {
-            const priceIndex = result.prices.findIndex(p => 
-              p.productLink === product.productLink && 
-              p.unit === product.unit &&
-              p.productTitle === product.productTitle
-            );
-            if (priceIndex >= 0) {
-              // Update with all price types from product page (product page is more accurate)
-              if (productPagePrices.regularPrice) {
-                result.prices[priceIndex].regularPrice = productPagePrices.regularPrice;
-              }
-              if (productPagePrices.discountedPrice) {
-                result.prices[priceIndex].discountedPrice = productPagePrices.discountedPrice;
-                // If we have a discounted price, use it as the current price
-                result.prices[priceIndex].price = productPagePrices.discountedPrice;
-                result.prices[priceIndex].sellPrice = productPagePrices.discountedPrice;
-              } else if (productPagePrices.currentPrice) {
-                result.prices[priceIndex].price = productPagePrices.currentPrice;
-                result.prices[priceIndex].sellPrice = productPagePrices.currentPrice;
-              }
-            }
-          }
-          // Small delay to avoid overwhelming the server
-          await new Promise(resolve => setTimeout(resolve, 400));
-        } catch (error) {
-          // If product page fetch fails, keep listing page price
-          continue;
-        }
-      }
-    }
-    
-    return result;
-  }
 }
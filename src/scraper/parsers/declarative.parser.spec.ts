@@ -0,0 +1,169 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Logger } from '@nestjs/common';
+import { DeclarativeParser, loadShopDefinitions } from './declarative.parser';
+import { ShopDefinition } from '../interfaces/shop-definition.interface';
+
+describe('DeclarativeParser', () => {
+  const definition: ShopDefinition = {
+    id: 'test-shop',
+    name: 'Test Shop',
+    sources: [
+      {
+        url: 'https://shop.example.com/zlatne-poluge/',
+        metal: 'gold',
+        productType: 'bar',
+      },
+    ],
+    selectors: {
+      product: 'li.product',
+      title: '.woocommerce-loop-product__title',
+      price: '.price',
+    },
+    weight: ['title', 'link'],
+    unitRules: [
+      { pattern: '(\\d+)\\s*dukat', unit: 'dukat', gramsPerUnit: 3.49 },
+    ],
+  };
+  const parser = new DeclarativeParser(
+    definition.name,
+    definition.sources,
+    definition,
+  );
+
+  const html = `
+    <ul class="products">
+      <li class="product">
+        <a href="/proizvod/zlatna-poluga-100-g/">
+          <h2 class="woocommerce-loop-product__title">Zlatna poluga Argor-Heraeus</h2>
+        </a>
+        <span class="price">
+          <del><span class="woocommerce-Price-amount">10.500,00 €</span></del>
+          <ins><span class="woocommerce-Price-amount">10.250,00 €</span></ins>
+        </span>
+      </li>
+      <li class="product">
+        <a href="/proizvod/dukat/"><h2 class="woocommerce-loop-product__title">1 dukat Franz Joseph</h2></a>
+        <span class="price"><span class="woocommerce-Price-amount">420,50 €</span></span>
+      </li>
+      <li class="product">
+        <a href="/proizvod/rasprodano/"><h2 class="woocommerce-loop-product__title">Rasprodano</h2></a>
+        <span class="price"></span>
+      </li>
+    </ul>`;
+
+  it('should extract title, link, regular and sale price', () => {
+    const [bar] = parser.parse(html);
+
+    expect(bar).toMatchObject({
+      productTitle: 'Zlatna poluga Argor-Heraeus',
+      productLink: 'https://shop.example.com/proizvod/zlatna-poluga-100-g/',
+      price: 10250,
+      regularPrice: 10500,
+      discountedPrice: 10250,
+      brand: 'Argor-Heraeus',
+    });
+  });
+
+  it('should resolve weight from the configured sources and unit rules', () => {
+    const [bar, ducat] = parser.parse(html);
+
+    expect(bar).toMatchObject({ weightGrams: 100, unit: 'gram' });
+    expect(ducat).toMatchObject({
+      weightGrams: 3.49,
+      unit: 'dukat',
+      price: 420.5,
+    });
+  });
+
+  it('should skip products without a price', () => {
+    expect(parser.parse(html)).toHaveLength(2);
+  });
+});
+
+describe('loadShopDefinitions', () => {
+  const valid = {
+    id: 'test-shop',
+    name: 'Test Shop',
+    sources: [
+      {
+        url: 'https://shop.example.com/zlatne-poluge/',
+        metal: 'gold',
+        productType: 'bar',
+      },
+    ],
+    selectors: { product: 'li.product', title: 'h2', price: '.price' },
+  };
+  let directory: string;
+  let logError: jest.SpyInstance;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'shops-'));
+    logError = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const write = (file: string, definition: unknown) =>
+    writeFileSync(join(directory, file), JSON.stringify(definition));
+
+  it('should load the example definition', () => {
+    const definitions = loadShopDefinitions(join(__dirname, 'fixtures/shops'));
+
+    expect(definitions.map(({ id }) => id)).toEqual(['example-shop']);
+    definitions.forEach((definition) =>
+      expect(
+        () =>
+          new DeclarativeParser(
+            definition.name,
+            definition.sources,
+            definition,
+          ),
+      ).not.toThrow(),
+    );
+  });
+
+  it('should warn when the directory is missing', () => {
+    const logWarn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    expect(loadShopDefinitions(join(directory, 'missing'))).toEqual([]);
+    expect(logWarn).toHaveBeenCalledWith(expect.stringContaining('not found'));
+  });
+
+  it('should skip duplicate IDs, bad sources and invalid regexes', () => {
+    write('a-valid.json', valid);
+    write('b-duplicate.json', { ...valid, name: 'Copy' });
+    write('c-reserved.json', { ...valid, id: 'moro' });
+    write('d-metal.json', {
+      ...valid,
+      id: 'bad-metal',
+      sources: [{ ...valid.sources[0], metal: 'copper' }],
+    });
+    write('e-url.json', {
+      ...valid,
+      id: 'bad-url',
+      sources: [{ ...valid.sources[0], url: 'zlatne-poluge' }],
+    });
+    write('f-title.json', {
+      ...valid,
+      id: 'bad-title',
+      detailPages: { titlePattern: '(poluga' },
+    });
+    write('g-unit.json', {
+      ...valid,
+      id: 'bad-unit',
+      unitRules: [{ pattern: '[dukat', unit: 'dukat', gramsPerUnit: 3.49 }],
+    });
+    write('h-enabled.json', { ...valid, id: 'bad-enabled', enabled: 'no' });
+    writeFileSync(join(directory, 'i-broken.json'), '{');
+
+    expect(
+      loadShopDefinitions(directory, ['moro']).map(({ name }) => name),
+    ).toEqual(['Test Shop']);
+    expect(logError).toHaveBeenCalledTimes(8);
+  });
+});
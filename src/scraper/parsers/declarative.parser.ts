@@ -0,0 +1,330 @@
+import * as cheerio from 'cheerio';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Logger } from '@nestjs/common';
+import { BaseParser } from './base.parser';
+import { getRegisteredParsers, RegisteredParser } from './parser.registry';
+import { LayoutChangedError } from '../errors/scrape.errors';
+import { METALS, PriceEntry } from '../interfaces/price.interface';
+import { VendorSource } from '../interfaces/vendor-config.interface';
+import {
+  ShopDefinition,
+  UnitRule,
+  WeightSource,
+} from '../interfaces/shop-definition.interface';
+
+const DEFAULT_WEIGHT_SOURCES: WeightSource[] = ['title', 'text'];
+const PRODUCT_TYPES = ['bar', 'coin'];
+const SOURCE_TYPES = ['sale', 'buyback'];
+
+interface CompiledUnitRule extends UnitRule {
+  regex: RegExp;
+}
+
+/**
+ * Generic WooCommerce-style parser driven by a ShopDefinition
+ */
+export class DeclarativeParser extends BaseParser {
+  private readonly unitRules: CompiledUnitRule[];
+
+  constructor(
+    vendorName: string,
+    sources: VendorSource[],
+    private readonly definition: ShopDefinition,
+  ) {
+    super(vendorName, sources);
+    this.useStoreApi = definition.storeApi ?? false;
+    this.useStructuredData = definition.structuredData ?? false;
+    this.unitRules = (definition.unitRules ?? []).map((rule) => ({
+      ...rule,
+      regex: new RegExp(rule.pattern, 'i'),
+    }));
+    if (definition.detailPages) {
+      const { titlePattern, ...options } = definition.detailPages;
+      const pattern = titlePattern ? new RegExp(titlePattern, 'i') : null;
+      this.detailPages = {
+        ...options,
+        select: (entry) => !pattern || pattern.test(entry.productTitle ?? ''),
+      };
+    }
+  }
+
+  parse(html: string): PriceEntry[] {
+    const $ = cheerio.load(html);
+    const { selectors } = this.definition;
+    const prices: PriceEntry[] = [];
+    const seen = new Set<string>();
+    const $products = $(selectors.product);
+    let titled = 0;
+
+    $products.each((_, element) => {
+      const $product = $(element);
+      const productTitle = $product.find(selectors.title).first().text().trim();
+      if (!productTitle) return;
+      titled++;
+
+      const href = $product
+        .find(selectors.link ?? 'a[href]')
+        .first()
+        .attr('href');
+      const productLink = href
+        ? new URL(href, this.vendorUrl).toString()
+        : undefined;
+
+      const $price = $product.find(selectors.price).first();
+      const amount = selectors.amount ?? '.woocommerce-Price-amount, .amount';
+      const regularSelector = selectors.regularPrice ?? 'del';
+      const regularPrice = this.parseAmount(
+        $price.find(regularSelector).first(),
+        amount,
+      );
+      const salePrice = this.parseAmount(
+        $price.find(selectors.salePrice ?? 'ins').first(),
+        amount,
+      );
+      // Without a sale, the current price is whatever is left once the regular price is removed
+      const $current = $price.clone();
+      $current.find(regularSelector).remove();
+      const currentPrice = salePrice ?? this.parseAmount($current, amount);
+
+      const price = currentPrice ?? regularPrice;
+      if (!price) return;
+
+      const key = productLink ?? productTitle;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const productText = $product.text();
+      const attributes = this.extractProductAttributes(
+        productTitle,
+        productText,
+      );
+      const weight = this.findWeight(
+        productTitle,
+        productText,
+        productLink,
+        $product,
+      );
+
+      prices.push({
+        ...attributes,
+        unit: weight?.unit ?? attributes.unit,
+        weightGrams: weight?.grams ?? attributes.weightGrams,
+        price,
+        sellPrice: price,
+        regularPrice:
+          regularPrice && regularPrice > price ? regularPrice : undefined,
+        discountedPrice:
+          regularPrice && regularPrice > price ? price : undefined,
+        productTitle,
+        productLink,
+      });
+    });
+
+    if ($products.length > 0 && titled === 0) {
+      throw new LayoutChangedError(
+        `Title selector "${selectors.title}" matched none of ${$products.length} products`,
+        { url: this.vendorUrl },
+      );
+    }
+    return prices;
+  }
+
+  /**
+   * Read a price from an element, preferring its first amount element
+   */
+  private parseAmount(
+    $element: ReturnType<ReturnType<typeof cheerio.load>>,
+    amountSelector: string,
+  ): number | null {
+    if ($element.length === 0) return null;
+    const $amount = $element.find(amountSelector).first();
+    return this.parsePrice(
+      ($amount.length > 0 ? $amount : $element).text().trim(),
+    );
+  }
+
+  /**
+   * Resolve the weight from the configured sources, in order
+   * Unit rules are tried before the standard weight parsing for every source
+   */
+  private findWeight(
+    title: string,
+    text: string,
+    link: string | undefined,
+    $product: ReturnType<ReturnType<typeof cheerio.load>>,
+  ): { grams: number; unit: string } | null {
+    const sources = this.definition.weight ?? DEFAULT_WEIGHT_SOURCES;
+
+    for (const source of sources) {
+      let value: string | undefined;
+      if (source === 'title') {
+        value = title;
+      } else if (source === 'text') {
+        value = text;
+      } else if (source === 'link') {
+        // Slugs use dashes, e.g. "poluga-100-g" or "1-10-oz"
+        value = link
+          ?.replace(/-(\d+)-(\d+)-oz/i, ' $1/$2 oz')
+          .replace(/-/g, ' ');
+      } else {
+        const $element = $product.find(source.selector).first();
+        value = source.attribute
+          ? $element.attr(source.attribute)
+          : $element.text();
+      }
+      if (!value) continue;
+
+      const weight = this.applyUnitRules(value) ?? this.parseWeight(value);
+      if (weight) return weight;
+    }
+
+    return null;
+  }
+
+  private applyUnitRules(
+    value: string,
+  ): { grams: number; unit: string } | null {
+    for (const rule of this.unitRules) {
+      const match = value.match(rule.regex);
+      const amount = match ? parseFloat(match[1].replace(',', '.')) : NaN;
+      if (!isNaN(amount) && amount > 0) {
+        return {
+          grams: Math.round(amount * rule.gramsPerUnit * 10000) / 10000,
+          unit: rule.unit,
+        };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Check a parsed definition, throwing on the first problem
+ * Every regex is compiled here so a bad pattern never reaches the parser
+ */
+function validateShopDefinition(definition: ShopDefinition): void {
+  if (
+    !definition.id ||
+    !definition.name ||
+    !Array.isArray(definition.sources) ||
+    !definition.selectors?.product ||
+    !definition.selectors.title ||
+    !definition.selectors.price
+  ) {
+    throw new Error(
+      'id, name, sources and selectors.product/title/price are required',
+    );
+  }
+
+  if (
+    definition.enabled !== undefined &&
+    typeof definition.enabled !== 'boolean'
+  ) {
+    throw new Error('enabled must be true or false');
+  }
+
+  definition.sources.forEach((source, index) => {
+    try {
+      new URL(source?.url);
+    } catch {
+      throw new Error(`sources[${index}].url is not a valid URL`);
+    }
+    if (!METALS.includes(source.metal)) {
+      throw new Error(`sources[${index}].metal is unknown: ${source.metal}`);
+    }
+    if (!PRODUCT_TYPES.includes(source.productType)) {
+      throw new Error(
+        `sources[${index}].productType is unknown: ${source.productType}`,
+      );
+    }
+    if (source.type && !SOURCE_TYPES.includes(source.type)) {
+      throw new Error(`sources[${index}].type is unknown: ${source.type}`);
+    }
+  });
+
+  (definition.unitRules ?? []).forEach((rule, index) => {
+    if (!rule?.unit || !(rule.gramsPerUnit > 0)) {
+      throw new Error(
+        `unitRules[${index}] needs a unit and a positive gramsPerUnit`,
+      );
+    }
+    compilePattern(rule.pattern, `unitRules[${index}].pattern`);
+  });
+
+  const titlePattern = definition.detailPages?.titlePattern;
+  if (titlePattern !== undefined) {
+    compilePattern(titlePattern, 'detailPages.titlePattern');
+  }
+}
+
+function compilePattern(pattern: unknown, field: string): RegExp {
+  if (typeof pattern !== 'string' || !pattern) {
+    throw new Error(`${field} must be a non-empty regex`);
+  }
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`${field} is not a valid regex: ${errorMessage}`);
+  }
+}
+
+/**
+ * Load every *.json shop definition from a directory
+ * Invalid definitions and IDs already taken, by another file or by reservedIds, are logged and skipped
+ */
+export function loadShopDefinitions(
+  directory: string,
+  reservedIds: string[] = [],
+): ShopDefinition[] {
+  const logger = new Logger(DeclarativeParser.name);
+  if (!existsSync(directory)) {
+    logger.warn(`Shop definitions directory ${directory} not found`);
+    return [];
+  }
+
+  const takenIds = new Set(reservedIds);
+  const definitions: ShopDefinition[] = [];
+  readdirSync(directory)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .forEach((file) => {
+      try {
+        const definition = JSON.parse(
+          readFileSync(join(directory, file), 'utf8'),
+        ) as ShopDefinition;
+        validateShopDefinition(definition);
+        if (takenIds.has(definition.id)) {
+          throw new Error(`vendor ID already registered: ${definition.id}`);
+        }
+        takenIds.add(definition.id);
+        definitions.push(definition);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error(`Invalid shop definition ${file}: ${errorMessage}`);
+      }
+    });
+
+  return definitions;
+}
+
+/**
+ * Load the shop definitions of a directory as parser registrations
+ * IDs of the code parsers are reserved, so a definition can't replace one
+ */
+export function loadShopParsers(directory: string): RegisteredParser[] {
+  return loadShopDefinitions(
+    directory,
+    getRegisteredParsers().map(({ id }) => id),
+  ).map((definition) => ({
+    id: definition.id,
+    name: definition.name,
+    sources: definition.sources,
+    capabilities: definition.capabilities ?? [],
+    enabled: definition.enabled,
+    create: (vendorName, sources) =>
+      new DeclarativeParser(vendorName, sources, definition),
+  }));
+}
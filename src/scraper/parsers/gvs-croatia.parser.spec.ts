@@ -0,0 +1,148 @@
+import { GvsCroatiaParser } from './gvs-croatia.parser';
+
+// Magento listing as served by zlatosrebro.hr, trimmed to one product
+const LISTING_PAGE = `
+<ol class="products list items product-items">
+  <li class="item product product-item">
+    <div class="product-item-info">
+      <strong class="product name product-item-name">
+        <a class="product-item-link" href="https://www.zlatosrebro.hr/zlatna-poluga-10-g.html">Zlatna poluga 10 g</a>
+      </strong>
+      <div class="price-box price-final_price">
+        <div>od 1 kom.</div>
+        <div id="product-price-11" data-price-amount="1450.2"><span class="price">1.450,20 €</span></div>
+        <div>od 10 kom.</div>
+        <div id="product-price-12" data-price-amount="1440"><span class="price">1.440,00 €</span></div>
+        <div>od 50 kom.</div>
+        <div id="product-price-13" data-price-amount="1430.5"><span class="price">1.430,50 €</span></div>
+      </div>
+    </div>
+  </li>
+</ol>`;
+
+// Older template without price elements, each tier on its own lines
+const TEXT_TIERS_PAGE = `
+<ul>
+  <li class="item product product-item">
+    <a class="product-item-link" href="/krugerrand-1-oz.html">Zlatnik Krugerrand 1 oz</a>
+    <div>
+od 1 kom.
+2.890,50 €
+od 20 kom.
+2.875,00 €
+    </div>
+  </li>
+</ul>`;
+
+// Silver and platinum bars cost far less per gram than gold
+const SILVER_PLATINUM_PAGE = `
+<ol class="products list items product-items">
+  <li class="item product product-item">
+    <a class="product-item-link" href="/srebrna-poluga-1-kg.html">Srebrna poluga 1 kg</a>
+    <div class="price-box price-final_price">
+      <div>od 1 kom.</div>
+      <div data-price-amount="1150"><span class="price">1.150,00 €</span></div>
+      <div>od 5 kom.</div>
+      <div data-price-amount="1140"><span class="price">1.140,00 €</span></div>
+    </div>
+  </li>
+  <li class="item product product-item">
+    <a class="product-item-link" href="/platinasta-poluga-10-g.html">Platinasta poluga 10 g</a>
+    <div class="price-box price-final_price">
+      <div data-price-amount="385.5"><span class="price">385,50 €</span></div>
+    </div>
+  </li>
+</ol>`;
+
+// Silver coin listing; the title names no metal, so it comes from the source
+const SILVER_COIN_PAGE = `
+<ol class="products list items product-items">
+  <li class="item product product-item">
+    <a class="product-item-link" href="/wiener-philharmoniker-1-oz.html">Wiener Philharmoniker 1 oz</a>
+    <div class="price-box price-final_price">
+      <div data-price-amount="38.9"><span class="price">38,90 €</span></div>
+    </div>
+  </li>
+</ol>`;
+
+describe('GvsCroatiaParser', () => {
+  const parser = new GvsCroatiaParser('GVS Croatia', [
+    {
+      url: 'https://www.zlatosrebro.hr/kupnja/cijene-zlatnih-poluga.html',
+      metal: 'gold',
+      productType: 'bar',
+    },
+  ]);
+
+  it('should read every "od N kom." tier and use the single-unit price', () => {
+    const [bar] = parser.parse(LISTING_PAGE);
+
+    expect(bar).toMatchObject({
+      productTitle: 'Zlatna poluga 10 g',
+      weightGrams: 10,
+      price: 1450.2,
+      quantityTiers: [
+        { minQuantity: 1, unitPrice: 1450.2 },
+        { minQuantity: 10, unitPrice: 1440 },
+        { minQuantity: 50, unitPrice: 1430.5 },
+      ],
+    });
+    expect(bar.regularPrice).toBeUndefined();
+    expect(bar.discountedPrice).toBeUndefined();
+  });
+
+  it('should fall back to tiers listed as plain text', () => {
+    const [coin] = parser.parse(TEXT_TIERS_PAGE);
+
+    expect(coin).toMatchObject({
+      productTitle: 'Zlatnik Krugerrand 1 oz',
+      price: 2890.5,
+      quantityTiers: [
+        { minQuantity: 1, unitPrice: 2890.5 },
+        { minQuantity: 20, unitPrice: 2875 },
+      ],
+    });
+  });
+
+  it('should keep silver and platinum bars priced well below gold', () => {
+    const [silver, platinum] = parser.parse(SILVER_PLATINUM_PAGE);
+
+    expect(silver).toMatchObject({
+      productTitle: 'Srebrna poluga 1 kg',
+      metal: 'silver',
+      weightGrams: 1000,
+      price: 1150,
+      quantityTiers: [
+        { minQuantity: 1, unitPrice: 1150 },
+        { minQuantity: 5, unitPrice: 1140 },
+      ],
+    });
+    expect(platinum).toMatchObject({
+      productTitle: 'Platinasta poluga 10 g',
+      metal: 'platinum',
+      price: 385.5,
+    });
+  });
+
+  it('should take the metal of a silver source whose titles name none', async () => {
+    const silverParser = new GvsCroatiaParser('GVS Croatia', [
+      {
+        url: 'https://www.zlatosrebro.hr/kupnja/cijene-srebrnjaka.html',
+        metal: 'silver',
+        productType: 'coin',
+      },
+    ]);
+    silverParser['fetchHtml'] = () => Promise.resolve(SILVER_COIN_PAGE);
+
+    const { prices } = await silverParser.scrape();
+
+    expect(prices).toEqual([
+      expect.objectContaining({
+        productTitle: 'Wiener Philharmoniker 1 oz',
+        metal: 'silver',
+        productType: 'coin',
+        price: 38.9,
+      }),
+    ]);
+  });
+});
@@ -1,8 +1,94 @@
 import * as cheerio from 'cheerio';
 import { BaseParser } from './base.parser';
-import { PriceEntry } from '../interfaces/price.interface';
+import { RegisterParser } from './parser.registry';
+import { PriceEntry, QuantityTier } from '../interfaces/price.interface';
 
+@RegisterParser({
+  id: 'gvs-croatia',
+  name: 'GVS Croatia',
+  sources: [
+    {
+      url: 'https://www.zlatosrebro.hr/kupnja/cijene-zlatnih-poluga.html',
+      metal: 'gold',
+      productType: 'bar',
+    },
+    {
+      url: 'https://www.zlatosrebro.hr/kupnja/cijene-zlatnika.html',
+      metal: 'gold',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.zlatosrebro.hr/kupnja/cijene-srebrnih-poluga.html',
+      metal: 'silver',
+      productType: 'bar',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.zlatosrebro.hr/kupnja/cijene-srebrnjaka.html',
+      metal: 'silver',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.zlatosrebro.hr/kupnja/cijene-platinskih-poluga.html',
+      metal: 'platinum',
+      productType: 'bar',
+      unconfirmed: true,
+    },
+  ],
+  capabilities: ['buyback-prices', 'quantity-tiers'],
+})
 export class GvsCroatiaParser extends BaseParser {
+  /**
+   * Extract every volume tier ("od 1 kom.", "od 50 kom.", ...) with its unit price
+   */
+  private extractQuantityTiers(
+    productHtml: string,
+    productText: string,
+  ): QuantityTier[] {
+    const tiers = new Map<number, number>();
+
+    // Structure: <div>od 50 kom.</div><div id="product-price-X"><span class="price">141,20 €</span></div>
+    const htmlMatches = productHtml.matchAll(
+      /od\s+(\d+)\s+kom[\s\S]*?<span[^>]*class="price"[^>]*>([\d.,\s]+€)/gi,
+    );
+    for (const match of htmlMatches) {
+      const minQuantity = parseInt(match[1], 10);
+      const unitPrice = this.parsePrice(match[2]);
+      if (unitPrice !== null && !tiers.has(minQuantity)) {
+        tiers.set(minQuantity, unitPrice);
+      }
+    }
+
+    // Fallback: tier label on one line, price on one of the next lines
+    if (tiers.size === 0) {
+      const lines = productText.split('\n').map((l) => l.trim());
+      for (let i = 0; i < lines.length - 1; i++) {
+        const tierMatch = lines[i].match(/od\s+(\d+)\s+kom/i);
+        if (!tierMatch) continue;
+
+        for (let j = i + 1; j < Math.min(i + 5, lines.length); j++) {
+          const priceMatch = lines[j].match(
+            /(\d{1,3}(?:\.\d{3})*(?:,\d{2})?)\s*€/,
+          );
+          if (priceMatch) {
+            const minQuantity = parseInt(tierMatch[1], 10);
+            const unitPrice = this.parsePrice(priceMatch[1] + ' €');
+            if (unitPrice !== null && !tiers.has(minQuantity)) {
+              tiers.set(minQuantity, unitPrice);
+            }
+            break;
+          }
+        }
+      }
+    }
+
+    return Array.from(tiers.entries())
+      .map(([minQuantity, unitPrice]) => ({ minQuantity, unitPrice }))
+      .sort((a, b) => a.minQuantity - b.minQuantity);
+  }
+
   parse(html: string): PriceEntry[] {
     const $ = cheerio.load(html);
     const prices: PriceEntry[] = [];
@@ -176,6 +262,12 @@ export class GvsCroatiaParser extends BaseParser {
             
             const productText = ($product.text() + ' ' + productTitle).toLowerCase();
             
+            // Volume tiers - their prices must not be mistaken for regular/discounted prices
+            const quantityTiers = this.extractQuantityTiers(
+              $product.html() || '',
+              $product.text(),
+            );
+
             // Extract ALL price types: regular, discounted, current
             let regularPrice: number | null = null;
             let discountedPrice: number | null = null;
@@ -232,7 +324,8 @@ export class GvsCroatiaParser extends BaseParser {
               }
               
               // Method 5: Find all prices in the container and identify by position
-              if (!regularPrice || !discountedPrice) {
+              // Skipped for tiered products, where multiple prices are volume breaks
+              if ((!regularPrice || !discountedPrice) && quantityTiers.length < 2) {
                 const allPrices = Array.from(priceHtml.matchAll(/(\d{1,3}(?:\.\d{3})*(?:,\d{2})?)\s*€/g));
                 if (allPrices.length > 1) {
                   const parsedPrices = allPrices
@@ -275,59 +368,18 @@ export class GvsCroatiaParser extends BaseParser {
             // Determine final main price: discounted || current || regular
             const finalMainPrice = discountedPrice || currentPrice || regularPrice || mainPrice;
             
-            let unit = 'gram';
-            let weight: number | null = null;
-            
-            // Patterns to match weights like "1g", "100g", "1kg", "1 unca", etc.
-            const weightPatterns = [
-              /(\d+(?:[.,]\d+)?)\s*(g|gram|gr)\b/i,
-              /(\d+(?:[.,]\d+)?)\s*(kg|kilogram|kilo)\b/i,
-              /(\d+(?:[.,]\d+)?)\s*(oz|ounce|unca|unca troy)\b/i,
-              /^(\d+(?:[.,]\d+)?)\s*(g|kg|oz)\b/i, // At start of title like "1g zlatna poluga"
-            ];
-            
-            for (const pattern of weightPatterns) {
-              const match = productText.match(pattern);
-              if (match) {
-                weight = parseFloat(match[1].replace(/\./g, '').replace(',', '.'));
-                const unitStr = match[2].toLowerCase();
-                
-                // Normalize unit
-                if (unitStr.includes('kg') || unitStr.includes('kilogram') || unitStr.includes('kilo')) {
-                  unit = 'kg';
-                } else if (unitStr.includes('oz') || unitStr.includes('ounce') || unitStr.includes('unca')) {
-                  unit = 'ounce';
-                } else {
-                  unit = 'gram';
-                  
-                  // Convert grams to kg if >= 1000
-                  if (weight && weight >= 1000) {
-                    weight = weight / 1000;
-                    unit = 'kg';
-                  }
-                }
-                break;
-              }
-            }
+            // Extract weight, metal, fineness and brand from title/text
+            const attributes = this.extractProductAttributes(productTitle, productText);
 
             // If still no weight found, try looking for links or filters with weight info
-            if (!weight) {
+            if (!attributes.weightGrams) {
               $product.find('a[href*="unze_gewicht"], a[href*="gewicht"]').each((_, link) => {
                 const href = $(link).attr('href') || '';
                 const weightMatch = href.match(/unze_gewicht=(\d+)|gewicht=(\d+)/);
                 if (weightMatch) {
                   const w = parseInt(weightMatch[1] || weightMatch[2], 10);
-                  if (w < 100) {
-                    unit = 'gram';
-                    weight = w;
-                  } else {
-                    unit = 'gram';
-                    weight = w;
-                    if (w >= 1000) {
-                      weight = w / 1000;
-                      unit = 'kg';
-                    }
-                  }
+                  attributes.weightGrams = w;
+                  attributes.unit = w >= 1000 ? 'kg' : 'gram';
                 }
               });
             }
@@ -356,20 +408,23 @@ export class GvsCroatiaParser extends BaseParser {
             // Use sell price if found, otherwise use main price
             const finalPrice = sellPrice || finalMainPrice;
             
-            // Validate price makes sense - for gold bars, prices should be reasonable
-            // 1g should be roughly 100-200 EUR, larger bars proportionally more
-            if (finalPrice !== null && weight) {
-              const pricePerGram = finalPrice / weight;
-              // If price per gram is way too high (>500) or too low (<50), might be wrong
-              if (pricePerGram > 500 || pricePerGram < 50) {
-                // Skip this price - likely extraction error
-                return;
-              }
+            // Validate price makes sense for the weight and metal of the product
+            if (
+              finalPrice !== null &&
+              attributes.weightGrams &&
+              !this.isPlausiblePricePerGram(
+                finalPrice,
+                attributes.weightGrams,
+                attributes.metal,
+              )
+            ) {
+              // Skip this price - likely extraction error
+              return;
             }
             
             // GVS Croatia typically shows sell prices (buying from them)
             prices.push({
-              unit,
+              ...attributes,
               price: finalPrice || undefined,
               regularPrice: regularPrice !== null && regularPrice > 0 ? regularPrice : undefined,
               discountedPrice: discountedPrice !== null && discountedPrice > 0 ? discountedPrice : undefined,
@@ -377,6 +432,7 @@ export class GvsCroatiaParser extends BaseParser {
               sellPrice: finalPrice || undefined,
               productTitle: productTitle || undefined,
               productLink: fullProductLink,
+              quantityTiers: quantityTiers.length > 0 ? quantityTiers : undefined,
             });
           }
         }
@@ -450,23 +506,6 @@ export class GvsCroatiaParser extends BaseParser {
             const itemText = $item.text().toLowerCase();
             
             if (price !== null && price > 0) {
-              let unit = 'gram';
-              
-              // Extract unit from item text
-              const weightPatterns = [
-                /(\d+(?:[.,]\d+)?)\s*(kg|kilogram|kilo)\b/i,
-                /(\d+(?:[.,]\d+)?)\s*(oz|ounce|unca)\b/i,
-                /(\d+(?:[.,]\d+)?)\s*(g|gram|gr)\b/i,
-              ];
-              
-              for (const pattern of weightPatterns) {
-                const match = itemText.match(pattern);
-                if (match) {
-                  unit = this.normalizeUnit(match[2]);
-                  break;
-                }
-              }
-              
               // Extract product title and link
               const $titleLink = $item.find('a.product-item-link, .product-name a, h2 a, h3 a, a').first();
               const productTitle = $titleLink.text().trim() || $item.find('h2, h3, .product-name').text().trim();
@@ -476,7 +515,7 @@ export class GvsCroatiaParser extends BaseParser {
                 : undefined;
               
               prices.push({
-                unit,
+                ...this.extractProductAttributes(productTitle, itemText),
                 price,
                 sellPrice: price,
                 productTitle: productTitle || undefined,
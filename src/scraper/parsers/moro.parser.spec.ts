@@ -0,0 +1,90 @@
+import { MoroParser } from './moro.parser';
+
+// Otkup table in the layout the parser expects (moro.hr not yet confirmed)
+const BUYBACK_PAGE = `
+<table>
+  <thead>
+    <tr><th>Proizvod</th><th>Otkupna cijena</th></tr>
+  </thead>
+  <tbody>
+    <tr>
+      <td><a href="/proizvod/zlatna-poluga-10-g/">Zlatna poluga 10 g Argor-Heraeus</a></td>
+      <td>1.398,40 €</td>
+    </tr>
+    <tr>
+      <td>Zlatna poluga 1 oz</td>
+      <td>2.701,15 €</td>
+    </tr>
+  </tbody>
+</table>`;
+
+// Silver coin listing; the title names no metal, so it comes from the source
+const SILVER_COIN_PAGE = `
+<ul class="products">
+  <li class="product">
+    <h2 class="woocommerce-loop-product__title"><a href="/proizvod/wiener-philharmoniker-1-oz/">Wiener Philharmoniker 1 oz</a></h2>
+    <span class="price"><span class="woocommerce-Price-amount amount"><bdi>38,90 €</bdi></span></span>
+  </li>
+</ul>`;
+
+// Shop price table without an otkup column
+const PRICE_TABLE_PAGE = `
+<table>
+  <tr><th>Proizvod</th><th>Cijena</th></tr>
+  <tr><td>Zlatna poluga 10 g</td><td>1.450,20 €</td></tr>
+</table>`;
+
+describe('MoroParser', () => {
+  const parser = new MoroParser('Moro', [
+    {
+      url: 'https://www.moro.hr/otkup-zlatnih-poluga/',
+      metal: 'gold',
+      productType: 'bar',
+      type: 'buyback',
+    },
+  ]);
+
+  it('should read bids from the otkup table', () => {
+    expect(parser['parseBuyback'](BUYBACK_PAGE)).toEqual([
+      expect.objectContaining({
+        productTitle: 'Zlatna poluga 10 g Argor-Heraeus',
+        productLink: 'https://www.moro.hr/proizvod/zlatna-poluga-10-g/',
+        weightGrams: 10,
+        brand: 'Argor-Heraeus',
+        buyPrice: 1398.4,
+      }),
+      expect.objectContaining({
+        productTitle: 'Zlatna poluga 1 oz',
+        unit: 'ounce',
+        buyPrice: 2701.15,
+      }),
+    ]);
+  });
+
+  it('should not read bids from tables without an otkup column', () => {
+    expect(parser['parseBuyback'](PRICE_TABLE_PAGE)).toEqual([]);
+  });
+
+  it('should take the metal of a silver source whose titles name none', async () => {
+    const silverParser = new MoroParser('Moro', [
+      {
+        url: 'https://www.moro.hr/kategorija-proizvoda/srebrnjaci/',
+        metal: 'silver',
+        productType: 'coin',
+      },
+    ]);
+    silverParser['useStoreApi'] = false;
+    silverParser['fetchHtml'] = () => Promise.resolve(SILVER_COIN_PAGE);
+
+    const { prices } = await silverParser.scrape();
+
+    expect(prices).toEqual([
+      expect.objectContaining({
+        productTitle: 'Wiener Philharmoniker 1 oz',
+        metal: 'silver',
+        productType: 'coin',
+        price: 38.9,
+      }),
+    ]);
+  });
+});
@@ -1,8 +1,68 @@
 import * as cheerio from 'cheerio';
 import { BaseParser } from './base.parser';
+import { RegisterParser } from './parser.registry';
 import { PriceEntry } from '../interfaces/price.interface';
 
+@RegisterParser({
+  id: 'moro',
+  name: 'Moro',
+  sources: [
+    {
+      url: 'https://www.moro.hr/kategorija-proizvoda/zlatne-poluge/',
+      metal: 'gold',
+      productType: 'bar',
+    },
+    {
+      url: 'https://www.moro.hr/kategorija-proizvoda/zlatnici/',
+      metal: 'gold',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.moro.hr/kategorija-proizvoda/srebrne-poluge/',
+      metal: 'silver',
+      productType: 'bar',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.moro.hr/kategorija-proizvoda/srebrnjaci/',
+      metal: 'silver',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.moro.hr/kategorija-proizvoda/platinske-poluge/',
+      metal: 'platinum',
+      productType: 'bar',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.moro.hr/otkup-zlatnih-poluga/',
+      metal: 'gold',
+      productType: 'bar',
+      type: 'buyback',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://www.moro.hr/otkup-zlatnika/',
+      metal: 'gold',
+      productType: 'coin',
+      type: 'buyback',
+      unconfirmed: true,
+    },
+  ],
+  capabilities: ['buyback-prices', 'store-api'],
+})
 export class MoroParser extends BaseParser {
+  protected useStoreApi = true;
+
+  /**
+   * Otkup pages are a plain table with an "Otkupna cijena" column
+   */
+  protected parseBuyback(html: string): PriceEntry[] {
+    return this.parseBuybackTable(html);
+  }
+
   parse(html: string): PriceEntry[] {
     const $ = cheerio.load(html);
     const prices: PriceEntry[] = [];
@@ -235,80 +295,12 @@ export class MoroParser extends BaseParser {
           const price = sellPrice || finalMainPrice || buyPrice;
           
           if (price !== null) {
-            // Extract weight/unit from product title or text
-            let unit = 'gram';
-            let weight: number | null = null;
-            
-            // Try to extract weight from title/text
-            const textLower = (productTitle + ' ' + productText).toLowerCase();
-            
-            // Match patterns like "1000 g", "1000g", "1 kg", "31,1035 g", "1 unca", etc.
-            const weightPatterns = [
-              /(\d+(?:[.,]\d+)?)\s*(g|gram|gr)\b/i,
-              /(\d+(?:[.,]\d+)?)\s*(kg|kilogram|kilo)\b/i,
-              /(\d+(?:[.,]\d+)?)\s*(oz|ounce|unca|unca troy)\b/i,
-              /~?(\d+(?:[.,]\d+)?)\s*g/i, // like "~31,1035 g"
-            ];
-            
-            for (const pattern of weightPatterns) {
-              const match = textLower.match(pattern);
-              if (match) {
-                weight = parseFloat(match[1].replace(/\./g, '').replace(',', '.'));
-                const unitStr = match[2].toLowerCase();
-                
-                // Normalize unit
-                if (unitStr.includes('kg') || unitStr.includes('kilogram') || unitStr.includes('kilo')) {
-                  unit = 'kg';
-                } else if (unitStr.includes('oz') || unitStr.includes('ounce') || unitStr.includes('unca')) {
-                  unit = 'ounce';
-                } else {
-                  unit = 'gram';
-                  
-                  // Convert grams to kg if >= 1000
-                  if (weight && weight >= 1000) {
-                    weight = weight / 1000;
-                    unit = 'kg';
-                  }
-                }
-                break;
-              }
-            }
-
-            // If no weight found, try to infer from common patterns
-            if (!weight) {
-              if (textLower.includes('1000') || textLower.includes('1.000')) {
-                unit = 'kg';
-                weight = 1;
-              } else if (textLower.includes('500')) {
-                unit = 'gram';
-                weight = 500;
-              } else if (textLower.includes('250')) {
-                unit = 'gram';
-                weight = 250;
-              } else if (textLower.includes('100')) {
-                unit = 'gram';
-                weight = 100;
-              } else if (textLower.includes('50')) {
-                unit = 'gram';
-                weight = 50;
-              } else if (textLower.includes('31') || textLower.includes('unca')) {
-                unit = 'ounce';
-                weight = 1;
-              } else if (textLower.includes('20')) {
-                unit = 'gram';
-                weight = 20;
-              } else if (textLower.includes('10')) {
-                unit = 'gram';
-                weight = 10;
-              } else if (textLower.includes('5')) {
-                unit = 'gram';
-                weight = 5;
-              }
-            }
+            // Extract weight, metal, fineness and brand from title/text
+            const attributes = this.extractProductAttributes(productTitle, productText);
 
             // MORO typically shows sell prices - use what we found with all price types
             prices.push({
-              unit,
+              ...attributes,
               price: price || undefined,
               regularPrice: regularPrice !== null && regularPrice > 0 ? regularPrice : undefined,
               discountedPrice: discountedPrice !== null && discountedPrice > 0 ? discountedPrice : undefined,
@@ -329,7 +321,7 @@ export class MoroParser extends BaseParser {
         
         for (const match of Array.from(eurPriceMatches)) {
           const price = this.parsePrice(match[0]);
-          if (price !== null && price > 100) { // Reasonable price range for gold
+          if (price !== null && price > this.getMinimumProductPrice()) { // Reasonable price range for the source's metal
             prices.push({
               unit: 'gram',
               price,
@@ -0,0 +1,54 @@
+import { BaseParser } from './base.parser';
+import {
+  ParserRegistration,
+  VendorSource,
+} from '../interfaces/vendor-config.interface';
+
+export type ParserClass = new (
+  vendorName: string,
+  sources: VendorSource[],
+) => BaseParser;
+
+export type ParserFactory = (
+  vendorName: string,
+  sources: VendorSource[],
+) => BaseParser;
+
+export interface RegisteredParser extends ParserRegistration {
+  create: ParserFactory;
+}
+
+const registeredParsers = new Map<string, RegisteredParser>();
+
+/**
+ * Register a parser factory as the scraper for a vendor
+ */
+export function registerParser(
+  registration: ParserRegistration,
+  create: ParserFactory,
+): void {
+  if (registeredParsers.has(registration.id)) {
+    throw new Error(`Parser already registered for vendor: ${registration.id}`);
+  }
+  registeredParsers.set(registration.id, { ...registration, create });
+}
+
+/**
+ * Register a parser class as the scraper for a vendor
+ * Parsers register themselves when their module is imported
+ */
+export function RegisterParser(registration: ParserRegistration) {
+  return (parserClass: ParserClass): void => {
+    registerParser(
+      registration,
+      (vendorName, sources) => new parserClass(vendorName, sources),
+    );
+  };
+}
+
+/**
+ * All registered parsers, in registration order
+ */
+export function getRegisteredParsers(): RegisteredParser[] {
+  return Array.from(registeredParsers.values());
+}
@@ -0,0 +1,126 @@
+import { PlemenitParser } from './plemenit.parser';
+
+// Comparison table as served by plemenit.hr, trimmed to two products
+const COMPARISON_PAGE = `
+<table class="wp-block-table">
+  <thead>
+    <tr>
+      <th class="prvakolona">Proizvod</th>
+      <th class="drugakolona">FIZIKA</th>
+      <th class="trecakolona">Plaćanje karticom</th>
+      <th class="cetvrtakolona">MATEMATIKA</th>
+    </tr>
+  </thead>
+  <tbody>
+    <tr>
+      <td class="prvakolona"><a href="https://plemenit.hr/proizvod/zlatna-poluga-10-g/">Zlatna poluga 10 g</a></td>
+      <td class="drugakolona"><span class="amount">1.234,56 €</span></td>
+      <td class="trecakolona"><span class="amount">1.260,00 €</span></td>
+      <td class="cetvrtakolona"><del>1.250,00 €</del> <ins>1.220,00 €</ins></td>
+    </tr>
+    <tr>
+      <td class="prvakolona"><a href="https://plemenit.hr/proizvod/zlatna-poluga-1-g/">Zlatna poluga 1 g</a></td>
+      <td class="drugakolona"><span class="amount">135,90 €</span></td>
+      <td class="trecakolona"></td>
+      <td class="cetvrtakolona"></td>
+    </tr>
+  </tbody>
+</table>`;
+
+const BUYBACK_PAGE = `
+<table>
+  <tr><th class="prvakolona">Proizvod</th><th class="drugakolona">Otkup</th></tr>
+  <tr>
+    <td class="prvakolona">Zlatna poluga 10 g</td>
+    <td class="drugakolona"><span class="amount">1.190,00 €</span></td>
+  </tr>
+</table>`;
+
+// Silver coin comparison; the title names no metal, so it comes from the source
+const SILVER_COIN_PAGE = `
+<table class="wp-block-table">
+  <thead>
+    <tr><th class="prvakolona">Proizvod</th><th class="drugakolona">FIZIKA</th></tr>
+  </thead>
+  <tbody>
+    <tr>
+      <td class="prvakolona"><a href="https://plemenit.hr/proizvod/maple-leaf-1-oz/">Maple Leaf 1 oz</a></td>
+      <td class="drugakolona"><span class="amount">37,60 €</span></td>
+    </tr>
+  </tbody>
+</table>`;
+
+describe('PlemenitParser', () => {
+  const parser = new PlemenitParser('Plemenit', [
+    {
+      url: 'https://plemenit.hr/cijene/cijena-zlatnih-poluga/cjenik-zlatnih-poluga-usporedba/',
+      metal: 'gold',
+      productType: 'bar',
+    },
+  ]);
+
+  it('should keep every price column as an offer', () => {
+    const [bar] = parser.parse(COMPARISON_PAGE);
+
+    expect(bar.offers).toEqual([
+      { label: 'FIZIKA', price: 1234.56 },
+      { label: 'GEOGRAFIJA', price: 1260, conditions: 'Plaćanje karticom' },
+      {
+        label: 'MATEMATIKA',
+        price: 1220,
+        regularPrice: 1250,
+        discountedPrice: 1220,
+      },
+    ]);
+  });
+
+  it('should use the cheapest offer as the main price', () => {
+    const [bar, gram] = parser.parse(COMPARISON_PAGE);
+
+    expect(bar).toMatchObject({
+      productTitle: 'Zlatna poluga 10 g',
+      productLink: 'https://plemenit.hr/proizvod/zlatna-poluga-10-g/',
+      weightGrams: 10,
+      price: 1220,
+      sellPrice: 1220,
+      regularPrice: 1250,
+      discountedPrice: 1220,
+    });
+    expect(gram).toMatchObject({
+      price: 135.9,
+      offers: [{ label: 'FIZIKA', price: 135.9 }],
+    });
+  });
+
+  it('should read bids from the otkup page', () => {
+    expect(parser['parseBuyback'](BUYBACK_PAGE)).toEqual([
+      expect.objectContaining({
+        productTitle: 'Zlatna poluga 10 g',
+        weightGrams: 10,
+        buyPrice: 1190,
+      }),
+    ]);
+  });
+
+  it('should take the metal of a silver source whose titles name none', async () => {
+    const silverParser = new PlemenitParser('Plemenit', [
+      {
+        url: 'https://plemenit.hr/cijene/cijena-srebrnjaka/cjenik-srebrnjaka-usporedba/',
+        metal: 'silver',
+        productType: 'coin',
+      },
+    ]);
+    silverParser['fetchHtml'] = () => Promise.resolve(SILVER_COIN_PAGE);
+
+    const { prices } = await silverParser.scrape();
+
+    expect(prices).toEqual([
+      expect.objectContaining({
+        productTitle: 'Maple Leaf 1 oz',
+        metal: 'silver',
+        productType: 'coin',
+        price: 37.6,
+      }),
+    ]);
+  });
+});
@@ -1,7 +1,59 @@
 import * as cheerio from 'cheerio';
 import { BaseParser } from './base.parser';
-import { PriceEntry } from '../interfaces/price.interface';
+import { RegisterParser } from './parser.registry';
+import { PriceEntry, PriceOffer } from '../interfaces/price.interface';
 
+// Price columns of the comparison table, in display order
+const OFFER_COLUMNS = [
+  { selector: '.drugakolona', label: 'FIZIKA' },
+  { selector: '.trecakolona', label: 'GEOGRAFIJA' },
+  { selector: '.cetvrtakolona', label: 'MATEMATIKA' },
+];
+
+@RegisterParser({
+  id: 'plemenit',
+  name: 'Plemenit',
+  sources: [
+    {
+      url: 'https://plemenit.hr/cijene/cijena-zlatnih-poluga/cjenik-zlatnih-poluga-usporedba/',
+      metal: 'gold',
+      productType: 'bar',
+    },
+    {
+      url: 'https://plemenit.hr/cijene/cijena-zlatnika/cjenik-zlatnika-usporedba/',
+      metal: 'gold',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://plemenit.hr/cijene/cijena-srebrnih-poluga/cjenik-srebrnih-poluga-usporedba/',
+      metal: 'silver',
+      productType: 'bar',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://plemenit.hr/cijene/cijena-srebrnjaka/cjenik-srebrnjaka-usporedba/',
+      metal: 'silver',
+      productType: 'coin',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://plemenit.hr/otkup/otkup-zlatnih-poluga/',
+      metal: 'gold',
+      productType: 'bar',
+      type: 'buyback',
+      unconfirmed: true,
+    },
+    {
+      url: 'https://plemenit.hr/otkup/otkup-zlatnika/',
+      metal: 'gold',
+      productType: 'coin',
+      type: 'buyback',
+      unconfirmed: true,
+    },
+  ],
+  capabilities: ['buyback-prices', 'multiple-offers'],
+})
 export class PlemenitParser extends BaseParser {
   /**
    * Helper function to extract ALL price types from cell (regular, discounted, current)
@@ -105,11 +157,73 @@ export class PlemenitParser extends BaseParser {
     return { regularPrice, discountedPrice, currentPrice };
   }
 
+  /**
+   * Build a named offer from the prices found in one column
+   */
+  private toOffer(
+    label: string,
+    cellPrices: {
+      regularPrice: number | null;
+      discountedPrice: number | null;
+      currentPrice: number | null;
+    },
+    conditions?: string,
+  ): PriceOffer | null {
+    let { regularPrice, discountedPrice } = cellPrices;
+    const { currentPrice } = cellPrices;
+
+    if (
+      regularPrice &&
+      currentPrice &&
+      !discountedPrice &&
+      currentPrice < regularPrice
+    ) {
+      discountedPrice = currentPrice;
+    }
+    if (
+      regularPrice &&
+      discountedPrice &&
+      Math.abs(regularPrice - discountedPrice) < 0.01
+    ) {
+      regularPrice = null;
+    }
+
+    const price = discountedPrice || currentPrice || regularPrice;
+    if (!price || price <= 0) return null;
+
+    return {
+      label,
+      price,
+      regularPrice: regularPrice || undefined,
+      discountedPrice: discountedPrice || undefined,
+      conditions: conditions || undefined,
+    };
+  }
+
+  /**
+   * Otkup pages use the same column classes as the comparison table, with the bid in the second column
+   */
+  protected parseBuyback(html: string): PriceEntry[] {
+    return this.parseBuybackTable(html, {
+      title: '.prvakolona',
+      price: '.drugakolona',
+    });
+  }
+
   parse(html: string): PriceEntry[] {
     const $ = cheerio.load(html);
     const prices: PriceEntry[] = [];
 
     try {
+      // Column headers describe the terms of each offer
+      const offerConditions = OFFER_COLUMNS.map(({ selector, label }) => {
+        const header = $(`table th${selector}, table thead td${selector}`)
+          .first()
+          .text()
+          .trim();
+        return header && header.toUpperCase() !== label ? header : undefined;
+      });
+
       // Plemenit comparison page has a specific table structure:
       // - td.prvakolona = product name (contains weight like "1 gram")
       // - td.drugakolona = FIZIKA price (€)
@@ -140,29 +254,13 @@ export class PlemenitParser extends BaseParser {
           ? (productLinkHref.startsWith('http') ? productLinkHref : new URL(productLinkHref, this.vendorUrl).toString())
           : undefined;
 
-        // Extract weight/unit from product name
-        let unit = 'gram';
-        let weight: number | null = null;
-        
-        const weightPatterns = [
-          /(\d+(?:[.,]\d+)?)\s*(g|gram|gr)\b/i,
-          /(\d+(?:[.,]\d+)?)\s*(kg|kilogram|kilo)\b/i,
-          /(\d+(?:[.,]\d+)?)\s*(oz|ounce|unca)\b/i,
-        ];
-
-        for (const pattern of weightPatterns) {
-          const match = combinedText.match(pattern);
-          if (match) {
-            weight = parseFloat(match[1].replace(/\./g, '').replace(',', '.'));
-            unit = this.normalizeUnit(match[2]);
-            break;
-          }
-        }
+        // Extract weight, metal, fineness and brand from product name
+        const attributes = this.extractProductAttributes(productTitle, productText);
 
         // Extract prices from other columns - try multiple methods
-        const $fizikaCell = cells.filter('.drugakolona');
-        const $geografijaCell = cells.filter('.trecakolona');
-        const $matematikaCell = cells.filter('.cetvrtakolona');
+        const $fizikaCell = cells.filter(OFFER_COLUMNS[0].selector);
+        const $geografijaCell = cells.filter(OFFER_COLUMNS[1].selector);
+        const $matematikaCell = cells.filter(OFFER_COLUMNS[2].selector);
 
         // Get FIZIKA prices (most common, use this as main price source)
         const fizikaPrices = this.extractPricesFromCell($, $fizikaCell);
@@ -173,13 +271,23 @@ export class PlemenitParser extends BaseParser {
         // Get MATEMATIKA prices
         const matematikaPrices = this.extractPricesFromCell($, $matematikaCell);
 
-        // Combine price info from all columns, prioritizing FIZIKA
-        let regularPrice = fizikaPrices.regularPrice || geografijaPrices.regularPrice || matematikaPrices.regularPrice;
-        let discountedPrice = fizikaPrices.discountedPrice || geografijaPrices.discountedPrice || matematikaPrices.discountedPrice;
-        let currentPrice = fizikaPrices.currentPrice || geografijaPrices.currentPrice || matematikaPrices.currentPrice;
-        
-        // Also check all cells for any price if specific columns didn't yield results
-        if (!regularPrice && !discountedPrice && !currentPrice) {
+        // Keep every column as a separate offer so clients can pick the cheapest
+        const offers = [fizikaPrices, geografijaPrices, matematikaPrices]
+          .map((cellPrices, index) => this.toOffer(OFFER_COLUMNS[index].label, cellPrices, offerConditions[index]))
+          .filter((offer): offer is PriceOffer => offer !== null);
+
+        // Main price is the cheapest offer, with that offer's regular/discounted values
+        // Values are never mixed across columns - each column is its own offer
+        const bestOffer = offers.reduce<PriceOffer | undefined>(
+          (best, offer) => (!best || offer.price < best.price ? offer : best),
+          undefined,
+        );
+        let regularPrice = bestOffer?.regularPrice ?? null;
+        let discountedPrice = bestOffer?.discountedPrice ?? null;
+        let currentPrice = bestOffer?.price ?? null;
+
+        // Also check all cells for any price if the offer columns didn't yield results
+        if (!bestOffer) {
           // Try to find any price in any cell
           cells.each((_, cell) => {
             const $cell = $(cell);
@@ -209,15 +317,16 @@ export class PlemenitParser extends BaseParser {
         // Determine main price: discounted || current || regular
         const sellPrice = discountedPrice || currentPrice || regularPrice;
 
-        if (sellPrice !== null && sellPrice > 0 && (weight || combinedText.match(/\d+\s*(g|gram|kg|oz|ounce)/i))) {
+        if (sellPrice !== null && sellPrice > 0 && (attributes.weightGrams || combinedText.match(/\d+\s*(g|gram|kg|oz|ounce)/i))) {
           prices.push({
-            unit,
+            ...attributes,
             price: sellPrice,
             regularPrice: regularPrice !== null && regularPrice > 0 ? regularPrice : undefined,
             discountedPrice: discountedPrice !== null && discountedPrice > 0 ? discountedPrice : undefined,
             sellPrice: sellPrice,
             productTitle: productTitle || undefined,
             productLink: fullProductLink,
+            offers: offers.length > 0 ? offers : undefined,
           });
         }
       });
@@ -238,29 +347,14 @@ export class PlemenitParser extends BaseParser {
             return;
           }
 
-          let weight: number | null = null;
-          let unit = 'gram';
           let regularPrice: number | null = null;
           let discountedPrice: number | null = null;
           let currentPrice: number | null = null;
           let sellPrice: number | null = null;
           let buyPrice: number | null = null;
 
-          // Extract weight and unit from row
-          const weightPatterns = [
-            /(\d+(?:[.,]\d+)?)\s*(g|gram|gr)\b/i,
-            /(\d+(?:[.,]\d+)?)\s*(kg|kilogram|kilo)\b/i,
-            /(\d+(?:[.,]\d+)?)\s*(oz|ounce|unca)\b/i,
-          ];
-
-          for (const pattern of weightPatterns) {
-            const match = rowText.match(pattern);
-            if (match) {
-              weight = parseFloat(match[1].replace(/\./g, '').replace(',', '.'));
-              unit = this.normalizeUnit(match[2]);
-              break;
-            }
-          }
+          // Extract weight, metal, fineness and brand from row
+          const attributes = this.extractProductAttributes(rowText);
 
           // Extract ALL price types from cells
           cells.forEach((cell) => {
@@ -308,10 +402,10 @@ export class PlemenitParser extends BaseParser {
           const mainPrice = discountedPrice || currentPrice || regularPrice || sellPrice || buyPrice;
 
           // If we found weight or unit info, add the price entry
-          if (weight || rowText.match(/\d+\s*(g|gram|kg|oz|ounce)/i)) {
+          if (attributes.weightGrams || rowText.match(/\d+\s*(g|gram|kg|oz|ounce)/i)) {
             if (mainPrice) {
               prices.push({
-                unit,
+                ...attributes,
                 price: mainPrice,
                 regularPrice: regularPrice !== null && regularPrice > 0 ? regularPrice : undefined,
                 discountedPrice: discountedPrice !== null && discountedPrice > 0 ? discountedPrice : undefined,
@@ -350,12 +444,8 @@ export class PlemenitParser extends BaseParser {
           if (priceMatches.length > 0) {
             const textLower = text.toLowerCase();
             
-            // Extract weight/unit
-            let unit = 'gram';
-            const weightMatch = textLower.match(/(\d+(?:[.,]\d+)?)\s*(g|gram|gr|kg|kilogram|oz|ounce|unca)/i);
-            if (weightMatch) {
-              unit = this.normalizeUnit(weightMatch[2]);
-            }
+            // Extract weight, metal, fineness and brand
+            const attributes = this.extractProductAttributes(textLower);
 
             // Try to parse the first price found
             for (const match of priceMatches) {
@@ -364,7 +454,7 @@ export class PlemenitParser extends BaseParser {
               
               if (price !== null && price > 0) {
                 prices.push({
-                  unit,
+                  ...attributes,
                   price,
                   sellPrice: price,
                 });
@@ -0,0 +1,34 @@
+import { AxiosInstance } from 'axios';
+import { fetchStoreApiProducts, getCategorySlug } from './store-api.client';
+
+describe('store-api.client', () => {
+  it('should derive the category slug from a category URL', () => {
+    expect(
+      getCategorySlug(
+        'https://www.moro.hr/kategorija-proizvoda/zlatne-poluge/',
+      ),
+    ).toBe('zlatne-poluge');
+  });
+
+  it('should follow pagination up to the total page count', async () => {
+    const get = jest.fn((url: string, config: { params: { page: number } }) =>
+      Promise.resolve({
+        data: [{ id: config.params.page }],
+        headers: { 'x-wp-totalpages': '2' },
+      }),
+    );
+
+    const products = await fetchStoreApiProducts(
+      { get } as unknown as AxiosInstance,
+      'https://www.moro.hr/kategorija-proizvoda/zlatne-poluge/',
+      'zlatne-poluge',
+      { perPage: 1, maxPages: 5 },
+    );
+
+    expect(products.map((product) => product.id)).toEqual([1, 2]);
+    expect(get).toHaveBeenCalledWith(
+      'https://www.moro.hr/wp-json/wc/store/products',
+      { params: { category: 'zlatne-poluge', per_page: 1, page: 1 } },
+    );
+  });
+});
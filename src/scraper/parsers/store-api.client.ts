@@ -0,0 +1,55 @@
+import { AxiosInstance } from 'axios';
+import { StoreApiProduct } from '../interfaces/store-api.interface';
+
+export interface StoreApiOptions {
+  perPage: number;
+  maxPages: number;
+}
+
+/**
+ * Store API endpoint for a shop page, e.g. https://shop.hr/wp-json/wc/store/products
+ */
+export function getStoreApiUrl(pageUrl: string): string {
+  return new URL('/wp-json/wc/store/products', pageUrl).toString();
+}
+
+/**
+ * Category slug from a WooCommerce category URL
+ * ".../kategorija-proizvoda/zlatne-poluge/" -> "zlatne-poluge"
+ */
+export function getCategorySlug(pageUrl: string): string | undefined {
+  const segments = new URL(pageUrl).pathname.split('/').filter(Boolean);
+  return segments[segments.length - 1];
+}
+
+/**
+ * Fetch every product of a category from the WooCommerce Store API, page by page
+ * Throws when the API is unavailable (disabled, blocked or not WooCommerce)
+ */
+export async function fetchStoreApiProducts(
+  http: AxiosInstance,
+  pageUrl: string,
+  category: string | undefined,
+  options: StoreApiOptions,
+): Promise<StoreApiProduct[]> {
+  const products: StoreApiProduct[] = [];
+  const url = getStoreApiUrl(pageUrl);
+
+  for (let page = 1; page <= options.maxPages; page++) {
+    const response = await http.get<StoreApiProduct[]>(url, {
+      params: { category, per_page: options.perPage, page },
+    });
+    if (!Array.isArray(response.data)) {
+      throw new Error(`Unexpected Store API response from ${url}`);
+    }
+    products.push(...response.data);
+
+    const totalPages = Number(response.headers['x-wp-totalpages']);
+    const lastPage = totalPages
+      ? page >= totalPages
+      : response.data.length < options.perPage;
+    if (lastPage) break;
+  }
+
+  return products;
+}
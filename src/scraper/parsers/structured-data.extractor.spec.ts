@@ -0,0 +1,79 @@
+import { extractStructuredProducts } from './structured-data.extractor';
+
+describe('extractStructuredProducts', () => {
+  // Croatian shops show "1.234,56 €"
+  const parseTextPrice = (text: string) =>
+    parseFloat(text.replace(/[^\d,]/g, '').replace(',', '.')) || null;
+
+  it('should read products from JSON-LD graphs and item lists', () => {
+    const html = `
+      <script type="application/ld+json">
+        {"@graph": [
+          {"@type": "WebPage", "name": "Zlatne poluge"},
+          {"@type": "ItemList", "itemListElement": [
+            {"@type": "ListItem", "item": {
+              "@type": "Product", "name": "Poluga 1 oz", "url": "/poluga-1-oz/",
+              "brand": {"@type": "Brand", "name": "Valcambi"},
+              "offers": [{"@type": "Offer", "price": 2650.5, "priceCurrency": "EUR"}]
+            }}
+          ]}
+        ]}
+      </script>
+      <script type="application/ld+json">{ not json</script>`;
+
+    expect(
+      extractStructuredProducts(html, 'https://shop.hr/', parseTextPrice),
+    ).toEqual([
+      {
+        source: 'json-ld',
+        name: 'Poluga 1 oz',
+        url: 'https://shop.hr/poluga-1-oz/',
+        sku: undefined,
+        brand: 'Valcambi',
+        price: 2650.5,
+        priceCurrency: 'EUR',
+        availability: undefined,
+      },
+    ]);
+  });
+
+  it('should read products from microdata', () => {
+    const html = `
+      <div itemscope itemtype="https://schema.org/Product">
+        <h1 itemprop="name">Poluga 10 g</h1>
+        <meta itemprop="sku" content="P10" />
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="price" content="1045.00" />
+          <meta itemprop="priceCurrency" content="EUR" />
+          <link itemprop="availability" href="https://schema.org/InStock" />
+        </div>
+      </div>`;
+
+    expect(
+      extractStructuredProducts(html, 'https://shop.hr/', parseTextPrice),
+    ).toEqual([
+      expect.objectContaining({
+        source: 'microdata',
+        name: 'Poluga 10 g',
+        sku: 'P10',
+        price: 1045,
+        priceCurrency: 'EUR',
+        availability: 'https://schema.org/InStock',
+      }),
+    ]);
+  });
+
+  it('should read localized microdata prices without a content attribute', () => {
+    const html = `
+      <div itemscope itemtype="https://schema.org/Product">
+        <h2 itemprop="name">Poluga 1 oz</h2>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <span itemprop="price">1.234,56 €</span>
+        </div>
+      </div>`;
+
+    expect(
+      extractStructuredProducts(html, 'https://shop.hr/', parseTextPrice),
+    ).toEqual([expect.objectContaining({ price: 1234.56 })]);
+  });
+});
@@ -0,0 +1,170 @@
+import * as cheerio from 'cheerio';
+import { StructuredProduct } from '../interfaces/structured-data.interface';
+
+type JsonObject = Record<string, unknown>;
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+type TextPriceParser = (text: string) => number | null;
+
+/**
+ * Extract schema.org Products from JSON-LD and microdata markup
+ * JSON-LD products come first, microdata products follow
+ * Microdata prices shown as text, e.g. "1.234,56 €", are read with parseTextPrice
+ */
+export function extractStructuredProducts(
+  html: string,
+  baseUrl: string,
+  parseTextPrice: TextPriceParser,
+): StructuredProduct[] {
+  const $ = cheerio.load(html);
+  return [
+    ...extractJsonLd($, baseUrl),
+    ...extractMicrodata($, baseUrl, parseTextPrice),
+  ];
+}
+
+function extractJsonLd($: CheerioAPI, baseUrl: string): StructuredProduct[] {
+  const products: StructuredProduct[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    let data: unknown;
+    try {
+      data = JSON.parse($(element).html() || '');
+    } catch {
+      return; // Broken JSON-LD is common, ignore it
+    }
+
+    findJsonLdProducts(data).forEach((product) => {
+      const offer = firstOffer(product.offers);
+      const brand = product.brand;
+      products.push({
+        source: 'json-ld',
+        name: asString(product.name),
+        url: resolveUrl(asString(product.url) ?? asString(offer?.url), baseUrl),
+        sku: asString(product.sku),
+        brand: isObject(brand) ? asString(brand.name) : asString(brand),
+        price: asNumber(offer?.price ?? offer?.lowPrice),
+        priceCurrency: asString(offer?.priceCurrency),
+        availability: asString(offer?.availability),
+      });
+    });
+  });
+
+  return products;
+}
+
+/**
+ * Walk a JSON-LD document (arrays, @graph, ItemList) collecting Product nodes
+ */
+function findJsonLdProducts(data: unknown): JsonObject[] {
+  if (Array.isArray(data)) {
+    return data.flatMap((item) => findJsonLdProducts(item));
+  }
+  if (!isObject(data)) return [];
+
+  const types = ([] as unknown[]).concat(data['@type']);
+  if (types.includes('Product')) return [data];
+  if (data['@graph']) return findJsonLdProducts(data['@graph']);
+  if (types.includes('ItemList')) {
+    return ([] as unknown[])
+      .concat(data.itemListElement ?? [])
+      .flatMap((item) =>
+        findJsonLdProducts(isObject(item) && item.item ? item.item : item),
+      );
+  }
+  return [];
+}
+
+function extractMicrodata(
+  $: CheerioAPI,
+  baseUrl: string,
+  parseTextPrice: TextPriceParser,
+): StructuredProduct[] {
+  const products: StructuredProduct[] = [];
+
+  $('[itemscope][itemtype*="schema.org/Product"]').each((_, element) => {
+    const $product = $(element);
+    // Properties of nested items (e.g. a related product) belong to that item
+    const find = (name: string, $scope = $product) =>
+      $scope
+        .find(`[itemprop="${name}"]`)
+        .filter(
+          (_, el) =>
+            $(el).parent().closest('[itemscope]').get(0) === $scope.get(0),
+        )
+        .first();
+    const prop = (name: string, $scope = $product) => {
+      const $el = find(name, $scope);
+      if ($el.length === 0) return undefined;
+      return (
+        $el.attr('content') ??
+        $el.attr('href') ??
+        $el.attr('value') ??
+        $el.text().trim()
+      );
+    };
+    // The content attribute is machine-readable, visible text is localized
+    const price = (name: string, $scope = $product) => {
+      const $el = find(name, $scope);
+      if ($el.length === 0) return undefined;
+      const content = $el.attr('content');
+      if (content !== undefined) return asNumber(content);
+      const parsed = parseTextPrice($el.text().trim());
+      return parsed && parsed > 0 ? parsed : undefined;
+    };
+
+    const $offer = $product.find('[itemprop="offers"][itemscope]').first();
+    const $brand = $product.find('[itemprop="brand"][itemscope]').first();
+    products.push({
+      source: 'microdata',
+      name: prop('name'),
+      url: resolveUrl(prop('url'), baseUrl),
+      sku: prop('sku'),
+      brand: $brand.length > 0 ? prop('name', $brand) : prop('brand'),
+      price:
+        $offer.length > 0
+          ? (price('price', $offer) ?? price('lowPrice', $offer))
+          : price('price'),
+      priceCurrency:
+        $offer.length > 0
+          ? prop('priceCurrency', $offer)
+          : prop('priceCurrency'),
+      availability:
+        $offer.length > 0 ? prop('availability', $offer) : prop('availability'),
+    });
+  });
+
+  return products;
+}
+
+function firstOffer(offers: unknown): JsonObject | undefined {
+  const list = ([] as unknown[]).concat(offers ?? []);
+  return list.find(isObject);
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+/**
+ * JSON-LD and content attribute prices use a dot decimal separator ("1234.56")
+ */
+function asNumber(value: unknown): number | undefined {
+  const parsed =
+    typeof value === 'number' ? value : parseFloat(asString(value) ?? '');
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+function resolveUrl(url: string | undefined, baseUrl: string) {
+  if (!url) return undefined;
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
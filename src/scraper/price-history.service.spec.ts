@@ -0,0 +1,113 @@
+import { PriceHistoryService } from './price-history.service';
+import { PriceRepository } from './interfaces/price-repository.interface';
+import { PriceSample } from './interfaces/price-history.interface';
+import { VendorRegistryService } from './vendor-registry.service';
+
+describe('PriceHistoryService', () => {
+  const vendorRegistry = {
+    getVendors: () => [{ id: 'moro', name: 'Moro' }],
+  } as unknown as VendorRegistryService;
+  const sample = (iso: string, price: number): PriceSample => ({
+    vendor: 'Moro',
+    productTitle: 'Zlatna poluga 100 g',
+    unit: 'gram',
+    price,
+    scrapedAt: new Date(iso),
+  });
+
+  it('should aggregate samples into hourly OHLC candles', async () => {
+    const repository = {
+      getPriceSamples: jest
+        .fn()
+        .mockResolvedValue([
+          sample('2026-01-01T10:00:00Z', 100),
+          sample('2026-01-01T10:05:00Z', 104),
+          sample('2026-01-01T10:10:00Z', 98),
+          sample('2026-01-01T10:55:00Z', 101),
+          sample('2026-01-01T11:00:00Z', 102),
+        ]),
+    } as unknown as PriceRepository;
+    const service = new PriceHistoryService(repository, vendorRegistry);
+
+    const series = await service.getHistory(
+      {
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-02T00:00:00Z'),
+      },
+      '1h',
+    );
+
+    expect(series).toHaveLength(1);
+    expect(series[0].candles).toEqual([
+      {
+        bucketStart: new Date('2026-01-01T10:00:00Z'),
+        open: 100,
+        high: 104,
+        low: 98,
+        close: 101,
+        samples: 4,
+      },
+      {
+        bucketStart: new Date('2026-01-01T11:00:00Z'),
+        open: 102,
+        high: 102,
+        low: 102,
+        close: 102,
+        samples: 1,
+      },
+    ]);
+  });
+
+  it('should start daily candles at midnight in the scheduling timezone', async () => {
+    const repository = {
+      getPriceSamples: jest.fn().mockResolvedValue([
+        sample('2026-03-28T22:30:00Z', 100), // 23:30 in Zagreb, before DST
+        sample('2026-03-28T23:30:00Z', 102), // 00:30 on the day DST starts
+        sample('2026-03-29T21:30:00Z', 101), // 23:30 in summer time
+      ]),
+    } as unknown as PriceRepository;
+    const service = new PriceHistoryService(repository, vendorRegistry);
+
+    const [series] = await service.getHistory(
+      {
+        from: new Date('2026-03-27T00:00:00Z'),
+        to: new Date('2026-03-30T00:00:00Z'),
+      },
+      '1d',
+    );
+
+    expect(
+      series.candles.map(({ bucketStart, samples }) => ({
+        bucketStart,
+        samples,
+      })),
+    ).toEqual([
+      { bucketStart: new Date('2026-03-27T23:00:00Z'), samples: 1 },
+      { bucketStart: new Date('2026-03-28T23:00:00Z'), samples: 2 },
+    ]);
+  });
+
+  it('should resolve a vendor ID to the stored display name', async () => {
+    const getPriceSamples = jest.fn().mockResolvedValue([]);
+    const service = new PriceHistoryService(
+      { getPriceSamples } as unknown as PriceRepository,
+      vendorRegistry,
+    );
+    const range = {
+      from: new Date('2026-01-01T00:00:00Z'),
+      to: new Date('2026-01-02T00:00:00Z'),
+    };
+
+    await service.getHistory({ ...range, vendor: 'moro' }, '1h');
+    await service.getHistory({ ...range, vendor: 'Moro' }, '1h');
+
+    expect(getPriceSamples).toHaveBeenNthCalledWith(1, {
+      ...range,
+      vendor: 'Moro',
+    });
+    expect(getPriceSamples).toHaveBeenNthCalledWith(2, {
+      ...range,
+      vendor: 'Moro',
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  PRICE_REPOSITORY,
+  PriceRepository,
+} from './interfaces/price-repository.interface';
+import {
+  HistoryInterval,
+  PriceCandle,
+  PriceHistoryQuery,
+  PriceHistorySeries,
+  PriceSample,
+} from './interfaces/price-history.interface';
+import { VendorRegistryService } from './vendor-registry.service';
+import { scraperConfig } from './config/scraper.config';
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+@Injectable()
+export class PriceHistoryService {
+  // Local clock of scheduling.timezone, which candle buckets follow
+  private readonly localClock = new Intl.DateTimeFormat('en-US', {
+    timeZone: scraperConfig.scheduling.timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  });
+
+  constructor(
+    @Inject(PRICE_REPOSITORY)
+    private readonly priceRepository: PriceRepository,
+    private readonly vendorRegistry: VendorRegistryService,
+  ) {}
+
+  /**
+   * Check whether a string is a supported history interval
+   */
+  static isInterval(value: string): value is HistoryInterval {
+    return value in INTERVAL_MS;
+  }
+
+  /**
+   * Get OHLC candles per vendor product for the requested range
+   * The vendor may be given by ID or display name
+   */
+  async getHistory(
+    query: PriceHistoryQuery,
+    interval: HistoryInterval,
+  ): Promise<PriceHistorySeries[]> {
+    const samples = await this.priceRepository.getPriceSamples({
+      ...query,
+      vendor: query.vendor && this.resolveVendorName(query.vendor),
+    });
+
+    // Group samples by vendor + product so each series is one product line
+    const groups = new Map<string, PriceSample[]>();
+    samples.forEach((sample) => {
+      const key = `${sample.vendor}|${sample.productTitle}|${sample.unit}`;
+      const group = groups.get(key) ?? [];
+      group.push(sample);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values()).map((group) => ({
+      vendor: group[0].vendor,
+      productTitle: group[0].productTitle,
+      unit: group[0].unit,
+      interval,
+      candles: this.aggregateCandles(group, INTERVAL_MS[interval]),
+    }));
+  }
+
+  /**
+   * Samples are stored under vendor display names
+   */
+  private resolveVendorName(vendor: string): string {
+    return (
+      this.vendorRegistry
+        .getVendors()
+        .find((info) => info.id === vendor || info.name === vendor)?.name ??
+      vendor
+    );
+  }
+
+  /**
+   * Bucket samples (sorted oldest first) into intervals of the scheduling timezone
+   */
+  private aggregateCandles(
+    samples: PriceSample[],
+    intervalMs: number,
+  ): PriceCandle[] {
+    const candles: PriceCandle[] = [];
+    let current: PriceCandle | null = null;
+
+    for (const sample of samples) {
+      const bucketStart = this.getBucketStart(
+        sample.scrapedAt.getTime(),
+        intervalMs,
+      );
+
+      if (!current || current.bucketStart.getTime() !== bucketStart) {
+        current = {
+          bucketStart: new Date(bucketStart),
+          open: sample.price,
+          high: sample.price,
+          low: sample.price,
+          close: sample.price,
+          samples: 0,
+        };
+        candles.push(current);
+      }
+
+      current.high = Math.max(current.high, sample.price);
+      current.low = Math.min(current.low, sample.price);
+      current.close = sample.price;
+      current.samples++;
+    }
+
+    return candles;
+  }
+
+  /**
+   * Start of the interval containing a time, so daily candles run from local midnight to midnight
+   */
+  private getBucketStart(time: number, intervalMs: number): number {
+    const offset = this.getUtcOffset(time);
+    const localTime = time + offset;
+    const localStart = localTime - (localTime % intervalMs);
+    // The offset at the start of the bucket differs on the day DST changes
+    return localStart - this.getUtcOffset(localStart - offset);
+  }
+
+  /**
+   * Offset of the scheduling timezone from UTC at a time, e.g. 2 hours in a Zagreb summer
+   */
+  private getUtcOffset(time: number): number {
+    const parts = this.localClock.formatToParts(new Date(time));
+    const part = (type: string) =>
+      Number(parts.find((p) => p.type === type)?.value);
+    const localAsUtc = Date.UTC(
+      part('year'),
+      part('month') - 1,
+      part('day'),
+      part('hour'),
+      part('minute'),
+      part('second'),
+    );
+    return localAsUtc - (time - (time % 1000));
+  }
+}
@@ -0,0 +1,68 @@
+import { PriceMetricsService } from './price-metrics.service';
+import { SpotPriceService } from './spot-price.service';
+
+describe('PriceMetricsService', () => {
+  let spot: { pricePerOunce: number; currency: string; fetchedAt: Date };
+  const spotPriceService = {
+    getSpotPrice: (metal: string) => (metal === 'gold' ? spot : undefined),
+  } as unknown as SpotPriceService;
+  const service = new PriceMetricsService(spotPriceService);
+  const enrichOunce = () =>
+    service.enrich({
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      scrapedAt: new Date(),
+      prices: [
+        { unit: 'ounce', weightGrams: 31.1035, metal: 'gold', price: 2625 },
+      ],
+    }).prices[0];
+
+  beforeEach(() => {
+    spot = { pricePerOunce: 2500, currency: 'EUR', fetchedAt: new Date() };
+  });
+
+  it('should compute price per gram, per ounce and premium over spot', () => {
+    const entry = enrichOunce();
+
+    expect(entry.pricePerGram).toBe(84.4);
+    expect(entry.pricePerOunce).toBe(2625);
+    expect(entry.premiumPercent).toBe(5);
+  });
+
+  it('should skip the premium for spot prices in another currency or too old', () => {
+    spot.currency = 'USD';
+    expect(enrichOunce().premiumPercent).toBeUndefined();
+
+    spot = {
+      pricePerOunce: 2500,
+      currency: 'EUR',
+      fetchedAt: new Date(Date.now() - 2 * 3600000),
+    };
+    expect(enrichOunce()).toMatchObject({
+      pricePerOunce: 2625,
+      premiumPercent: undefined,
+    });
+  });
+
+  it('should leave entries without weight unchanged', () => {
+    const [entry] = service.enrich({
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      scrapedAt: new Date(),
+      prices: [{ unit: 'gram', price: 100 }],
+    }).prices;
+
+    expect(entry).toEqual({ unit: 'gram', price: 100 });
+  });
+
+  it('should compute the bid/ask spread from the buy-back price', () => {
+    const [entry] = service.enrich({
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      scrapedAt: new Date(),
+      prices: [{ unit: 'gram', price: 1500, buyPrice: 1425 }],
+    }).prices;
+
+    expect(entry.spreadPercent).toBe(5);
+  });
+});
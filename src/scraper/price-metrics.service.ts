@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { SpotPriceService } from './spot-price.service';
+import { scraperConfig } from './config/scraper.config';
+import { TROY_OUNCE_GRAMS } from './parsers/base.parser';
+import {
+  Metal,
+  PriceEntry,
+  VendorPriceData,
+} from './interfaces/price.interface';
+
+@Injectable()
+export class PriceMetricsService {
+  constructor(private readonly spotPriceService: SpotPriceService) {}
+
+  /**
+   * Add price per gram/ounce, premium over spot and bid/ask spread to every entry of a scrape result
+   */
+  enrich(data: VendorPriceData): VendorPriceData {
+    return {
+      ...data,
+      prices: data.prices.map((entry) => this.enrichEntry(entry)),
+    };
+  }
+
+  /**
+   * Compute normalized metrics for a single entry
+   * Entries without a known weight only get the spread
+   */
+  private enrichEntry(entry: PriceEntry): PriceEntry {
+    const price = entry.price ?? entry.sellPrice;
+    const spreadPercent = this.getSpreadPercent(entry.buyPrice, price);
+    if (!price || !entry.weightGrams) {
+      return spreadPercent === undefined ? entry : { ...entry, spreadPercent };
+    }
+
+    const pricePerGram = price / entry.weightGrams;
+    const spotPerOunce = entry.metal
+      ? this.getSpotPricePerOunce(entry.metal)
+      : undefined;
+
+    return {
+      ...entry,
+      pricePerGram: this.round(pricePerGram),
+      pricePerOunce: this.round(pricePerGram * TROY_OUNCE_GRAMS),
+      premiumPercent: spotPerOunce
+        ? this.round(
+            ((pricePerGram * TROY_OUNCE_GRAMS) / spotPerOunce - 1) * 100,
+          )
+        : undefined,
+      spreadPercent,
+    };
+  }
+
+  /**
+   * Spread between the ask (sale) price and the bid (buy-back) price, in % of the ask
+   */
+  private getSpreadPercent(bid?: number, ask?: number): number | undefined {
+    if (!bid || !ask) return undefined;
+    return this.round(((ask - bid) / ask) * 100);
+  }
+
+  /**
+   * Current reference spot price per troy ounce from the spot providers
+   * Spot prices in another currency than the shops' or older than the max age are not used
+   */
+  private getSpotPricePerOunce(metal: Metal): number | undefined {
+    const { currency, maxAgeMinutes } = scraperConfig.spot;
+    const spot = this.spotPriceService.getSpotPrice(metal);
+    if (!spot || spot.currency !== currency) return undefined;
+
+    const age = Date.now() - new Date(spot.fetchedAt).getTime();
+    return age > maxAgeMinutes * 60000 ? undefined : spot.pricePerOunce;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
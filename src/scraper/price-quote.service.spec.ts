@@ -0,0 +1,66 @@
+import { PriceQuoteService } from './price-quote.service';
+import { ScraperService } from './scraper.service';
+import { VendorRegistryService } from './vendor-registry.service';
+
+describe('PriceQuoteService', () => {
+  const scraperService = {
+    getCurrentPrices: () => [
+      {
+        vendor: 'GVS Croatia',
+        url: 'https://www.zlatosrebro.hr',
+        scrapedAt: new Date(),
+        prices: [
+          {
+            unit: 'gram',
+            price: 1450,
+            productTitle: 'Zlatna poluga 10 g',
+            quantityTiers: [
+              { minQuantity: 1, unitPrice: 1450 },
+              { minQuantity: 10, unitPrice: 1440 },
+              { minQuantity: 50, unitPrice: 1430 },
+            ],
+          },
+        ],
+      },
+      {
+        vendor: 'Moro',
+        url: 'https://www.moro.hr',
+        scrapedAt: new Date(),
+        prices: [{ unit: 'gram', price: 1445, productTitle: 'Poluga 10 g' }],
+      },
+    ],
+  } as unknown as ScraperService;
+  const service = new PriceQuoteService(scraperService, {
+    getVendors: () => [
+      { id: 'gvs-croatia', name: 'GVS Croatia' },
+      { id: 'moro', name: 'Moro' },
+    ],
+  } as unknown as VendorRegistryService);
+
+  it('should apply the highest tier the quantity qualifies for', () => {
+    const quotes = service.getQuotes('10 g', 20);
+
+    expect(quotes).toEqual([
+      expect.objectContaining({
+        vendor: 'GVS Croatia',
+        minQuantity: 10,
+        unitPrice: 1440,
+        totalPrice: 28800,
+      }),
+      expect.objectContaining({
+        vendor: 'Moro',
+        minQuantity: 1,
+        unitPrice: 1445,
+        totalPrice: 28900,
+      }),
+    ]);
+  });
+
+  it('should filter by vendor ID or display name', () => {
+    const byId = service.getQuotes('10 g', 1, 'moro');
+    const byName = service.getQuotes('10 g', 1, 'Moro');
+
+    expect(byId).toEqual(byName);
+    expect(byId).toEqual([expect.objectContaining({ vendor: 'Moro' })]);
+  });
+});
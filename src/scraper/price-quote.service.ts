@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { ScraperService } from './scraper.service';
+import { VendorRegistryService } from './vendor-registry.service';
+import { PriceEntry } from './interfaces/price.interface';
+import { PriceQuote } from './interfaces/price-quote.interface';
+
+@Injectable()
+export class PriceQuoteService {
+  constructor(
+    private readonly scraperService: ScraperService,
+    private readonly vendorRegistry: VendorRegistryService,
+  ) {}
+
+  /**
+   * Quote every matching product for a quantity, cheapest total first
+   * @param product Case-insensitive match on product title
+   * @param vendor Vendor ID or display name
+   */
+  getQuotes(product: string, quantity: number, vendor?: string): PriceQuote[] {
+    const search = product.toLowerCase();
+    const vendorName = vendor && this.resolveVendorName(vendor);
+    const quotes: PriceQuote[] = [];
+
+    this.scraperService
+      .getCurrentPrices()
+      .filter((data) => !vendorName || data.vendor === vendorName)
+      .forEach((data) => {
+        data.prices
+          .filter((entry) => entry.productTitle?.toLowerCase().includes(search))
+          .forEach((entry) => {
+            const quote = this.quote(entry, quantity);
+            if (quote) {
+              quotes.push({ vendor: data.vendor, ...quote });
+            }
+          });
+      });
+
+    return quotes.sort((a, b) => a.totalPrice - b.totalPrice);
+  }
+
+  /**
+   * Snapshots carry vendor display names, callers may use IDs too
+   */
+  private resolveVendorName(vendor: string): string {
+    return (
+      this.vendorRegistry
+        .getVendors()
+        .find((info) => info.id === vendor || info.name === vendor)?.name ??
+      vendor
+    );
+  }
+
+  /**
+   * Pick the highest tier the quantity qualifies for
+   * Entries without tiers are quoted at their single-unit price
+   */
+  private quote(
+    entry: PriceEntry,
+    quantity: number,
+  ): Omit<PriceQuote, 'vendor'> | null {
+    // Tiers are sorted by minQuantity, so the last qualifying one is the best
+    const tier = entry.quantityTiers
+      ?.filter((t) => t.minQuantity <= quantity)
+      .pop();
+    const unitPrice = tier?.unitPrice ?? entry.price ?? entry.sellPrice;
+    if (!unitPrice || !entry.productTitle) {
+      return null;
+    }
+
+    return {
+      productTitle: entry.productTitle,
+      productLink: entry.productLink,
+      quantity,
+      minQuantity: tier?.minQuantity ?? 1,
+      unitPrice,
+      totalPrice: Math.round(unitPrice * quantity * 100) / 100,
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { ProductCatalogService } from './product-catalog.service';
+import { VendorPriceData } from './interfaces/price.interface';
+
+describe('ProductCatalogService', () => {
+  let service: ProductCatalogService;
+
+  const scrape = (
+    vendor: string,
+    prices: VendorPriceData['prices'],
+  ): VendorPriceData => ({
+    vendor,
+    url: 'https://example.com',
+    scrapedAt: new Date(),
+    prices,
+  });
+
+  beforeEach(() => {
+    service = new ProductCatalogService();
+    service.setCatalog({
+      products: [
+        {
+          id: 'gold-bar-1oz-valcambi',
+          name: 'Valcambi 1 oz gold bar',
+          metal: 'gold',
+          productType: 'bar',
+          weightGrams: 31.1035,
+          fineness: 999.9,
+          brand: 'Valcambi',
+        },
+      ],
+      overrides: [
+        { vendor: 'Moro', title: /combibar/i, productId: 'gold-bar-combi' },
+      ],
+    });
+  });
+
+  it('should match curated products by brand, weight and metal', () => {
+    const [gvs] = service.match(
+      scrape('GVS Croatia', [
+        {
+          unit: 'gram',
+          weightGrams: 31.1,
+          metal: 'gold',
+          productType: 'bar',
+          brand: 'Valcambi',
+          productTitle: 'Zlatna poluga 31,1 g Valcambi',
+        },
+      ]),
+    ).prices;
+
+    expect(gvs.productId).toBe('gold-bar-1oz-valcambi');
+  });
+
+  it('should group uncatalogued entries and apply overrides', () => {
+    const prices = service.match(
+      scrape('Moro', [
+        {
+          unit: 'ounce',
+          weightGrams: 31.1035,
+          metal: 'gold',
+          productType: 'coin',
+          productTitle: 'Zlatnik 1 oz Krugerrand',
+        },
+        {
+          unit: 'gram',
+          weightGrams: 50,
+          metal: 'gold',
+          productType: 'bar',
+          productTitle: 'Valcambi CombiBar 50 x 1 g',
+        },
+        { unit: 'gram', productTitle: 'Poklon bon' },
+      ]),
+    ).prices;
+
+    expect(prices.map((entry) => entry.productId)).toEqual([
+      'group:gold-coin-1oz',
+      'gold-bar-combi',
+      undefined,
+    ]);
+    expect(service.getProduct('group:gold-coin-1oz')?.name).toBe(
+      '1 oz gold coin',
+    );
+  });
+
+  it('should not group a rejected entry into the curated product with the same name', () => {
+    const [entry] = service.match(
+      scrape('Moro', [
+        {
+          unit: 'ounce',
+          weightGrams: 31.1035,
+          metal: 'gold',
+          productType: 'bar',
+          brand: 'Valcambi',
+          fineness: 999,
+          productTitle: 'Zlatna poluga 1 oz Valcambi 999',
+        },
+      ]),
+    ).prices;
+
+    expect(entry.productId).toBe('group:gold-bar-1oz-valcambi');
+    expect(service.getProduct('gold-bar-1oz-valcambi')?.fineness).toBe(999.9);
+  });
+
+  it('should list offers for a product cheapest first', () => {
+    const entry = {
+      unit: 'ounce',
+      weightGrams: 31.1035,
+      metal: 'gold' as const,
+      productType: 'bar' as const,
+      brand: 'Valcambi',
+    };
+    const matched = [
+      service.match(scrape('Moro', [{ ...entry, price: 2650 }])),
+      service.match(scrape('Plemenit', [{ ...entry, price: 2600 }])),
+    ];
+
+    const result = service.getOffers('gold-bar-1oz-valcambi', matched);
+
+    expect(result?.offers.map((offer) => offer.vendor)).toEqual([
+      'Plemenit',
+      'Moro',
+    ]);
+    expect(service.getOffers('unknown', matched)).toBeUndefined();
+  });
+});
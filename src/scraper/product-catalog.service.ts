@@ -0,0 +1,191 @@
+import { Injectable } from '@nestjs/common';
+import { productCatalogConfig } from './config/product-catalog.config';
+import { TROY_OUNCE_GRAMS } from './parsers/base.parser';
+import { PriceEntry, VendorPriceData } from './interfaces/price.interface';
+import {
+  CanonicalProduct,
+  ProductCatalogConfig,
+  ProductOffer,
+  ProductOffers,
+} from './interfaces/product-catalog.interface';
+
+// Relative weight tolerance, so e.g. "31,1 g" still matches 1 oz (31.1035 g)
+const WEIGHT_TOLERANCE = 0.005;
+
+// Grouped product IDs live in their own namespace so they never collide with curated ones
+const GROUP_ID_PREFIX = 'group:';
+
+// Weights sold in ounces; others are labelled in grams
+const OUNCE_WEIGHTS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 100];
+
+@Injectable()
+export class ProductCatalogService {
+  private catalog: ProductCatalogConfig = productCatalogConfig;
+  private products: Map<string, CanonicalProduct> = this.createProducts();
+
+  /**
+   * Replace the catalog (used for tests and custom setups)
+   */
+  setCatalog(catalog: ProductCatalogConfig): void {
+    this.catalog = catalog;
+    this.products = this.createProducts();
+  }
+
+  private createProducts(): Map<string, CanonicalProduct> {
+    return new Map(this.catalog.products.map((p) => [p.id, p]));
+  }
+
+  /**
+   * Link every entry of a scrape result to its canonical product
+   */
+  match(data: VendorPriceData): VendorPriceData {
+    return {
+      ...data,
+      prices: data.prices.map((entry) => ({
+        ...entry,
+        productId: this.resolveProductId(data.vendor, entry),
+      })),
+    };
+  }
+
+  /**
+   * All known products: the curated catalog plus products grouped from scraped entries
+   */
+  getProducts(): CanonicalProduct[] {
+    return Array.from(this.products.values()).sort((a, b) =>
+      a.id.localeCompare(b.id),
+    );
+  }
+
+  getProduct(id: string): CanonicalProduct | undefined {
+    return this.products.get(id);
+  }
+
+  /**
+   * Collect every vendor offer for a product, cheapest first
+   */
+  getOffers(id: string, prices: VendorPriceData[]): ProductOffers | undefined {
+    const product = this.products.get(id);
+    if (!product) return undefined;
+
+    const offers: ProductOffer[] = [];
+    prices.forEach((data) => {
+      data.prices
+        .filter((entry) => entry.productId === id)
+        .forEach((entry) => {
+          offers.push({
+            vendor: data.vendor,
+            scrapedAt: data.scrapedAt,
+            productTitle: entry.productTitle,
+            productLink: entry.productLink,
+            price: entry.price ?? entry.sellPrice,
+            buyPrice: entry.buyPrice,
+            pricePerGram: entry.pricePerGram,
+            premiumPercent: entry.premiumPercent,
+            spreadPercent: entry.spreadPercent,
+          });
+        });
+    });
+
+    // Bid-only offers (no ask price) go last
+    offers.sort((a, b) => (a.price ?? Infinity) - (b.price ?? Infinity));
+    return { product, offers };
+  }
+
+  /**
+   * Manual overrides win, then the most specific curated product, then a grouped product
+   */
+  private resolveProductId(
+    vendor: string,
+    entry: PriceEntry,
+  ): string | undefined {
+    const title = entry.productTitle ?? '';
+    const override = this.catalog.overrides.find(
+      (o) => (!o.vendor || o.vendor === vendor) && o.title.test(title),
+    );
+    if (override) return override.productId;
+
+    const curated = this.catalog.products
+      .filter((product) => this.matches(product, entry))
+      .sort((a, b) => this.specificity(b) - this.specificity(a))[0];
+    if (curated) return curated.id;
+
+    return this.groupProduct(entry)?.id;
+  }
+
+  /**
+   * Whether an entry satisfies a product's match rules
+   * Attributes the entry doesn't state are not held against it, except metal and weight
+   */
+  private matches(product: CanonicalProduct, entry: PriceEntry): boolean {
+    if (entry.metal !== product.metal || !entry.weightGrams) return false;
+    if (
+      Math.abs(entry.weightGrams - product.weightGrams) >
+      product.weightGrams * WEIGHT_TOLERANCE
+    ) {
+      return false;
+    }
+    if (
+      product.productType &&
+      entry.productType &&
+      entry.productType !== product.productType
+    ) {
+      return false;
+    }
+    if (product.brand && entry.brand !== product.brand) return false;
+    if (product.fineness && entry.fineness) {
+      return entry.fineness === product.fineness;
+    }
+    return true;
+  }
+
+  private specificity(product: CanonicalProduct): number {
+    return (product.brand ? 2 : 0) + (product.fineness ? 1 : 0);
+  }
+
+  /**
+   * Group an uncatalogued entry by metal, type, weight and brand, e.g. "group:gold-coin-1oz"
+   * The product is added to the catalog the first time it is seen
+   */
+  private groupProduct(entry: PriceEntry): CanonicalProduct | undefined {
+    if (!entry.metal || !entry.weightGrams) return undefined;
+
+    const weight = this.weightLabel(entry.weightGrams);
+    const productType = entry.productType ?? 'product';
+    const id =
+      GROUP_ID_PREFIX +
+      [entry.metal, productType, weight.replace(/\s+/g, ''), entry.brand]
+        .filter(Boolean)
+        .join('-')
+        .toLowerCase()
+        .replace(/[^a-z0-9.]+/g, '-');
+
+    let product = this.products.get(id);
+    if (!product) {
+      product = {
+        id,
+        name: [entry.brand, weight, entry.metal, productType]
+          .filter(Boolean)
+          .join(' '),
+        metal: entry.metal,
+        productType: entry.productType,
+        weightGrams: entry.weightGrams,
+        brand: entry.brand,
+      };
+      this.products.set(id, product);
+    }
+    return product;
+  }
+
+  /**
+   * "1 oz", "0.1 oz", "100 g" - ounce sizes win so 1 oz and 31,1035 g group together
+   */
+  private weightLabel(weightGrams: number): string {
+    const ounces = weightGrams / TROY_OUNCE_GRAMS;
+    const ounceWeight = OUNCE_WEIGHTS.find(
+      (oz) => Math.abs(ounces - oz) <= oz * WEIGHT_TOLERANCE,
+    );
+    if (ounceWeight !== undefined) return `${ounceWeight} oz`;
+    return `${Math.round(weightGrams * 100) / 100} g`;
+  }
+}
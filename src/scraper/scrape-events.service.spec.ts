@@ -0,0 +1,54 @@
+import { ScrapeEventsService } from './scrape-events.service';
+import { VendorRegistryService } from './vendor-registry.service';
+import { ScrapeEvent } from './interfaces/scrape-event.interface';
+
+describe('ScrapeEventsService', () => {
+  const service = new ScrapeEventsService({
+    getVendors: () => [{ id: 'moro', name: 'Moro' }],
+  } as unknown as VendorRegistryService);
+
+  const prices = (vendor: string): ScrapeEvent => ({
+    type: 'prices',
+    vendor,
+    data: {
+      vendor,
+      url: 'https://example.com',
+      scrapedAt: new Date(),
+      prices: [
+        { unit: 'gram', price: 100, productId: 'gold-bar-1g' },
+        { unit: 'ounce', price: 2500, productId: 'gold-coin-1oz' },
+      ],
+    },
+  });
+
+  it('should filter events by vendor ID and product', () => {
+    const received: ScrapeEvent[] = [];
+    const subscription = service
+      .stream({ vendor: 'moro', product: 'gold-coin-1oz' })
+      .subscribe((event) => received.push(event));
+
+    service.publish({
+      type: 'vendor-completed',
+      vendor: 'Plemenit',
+      success: true,
+    });
+    service.publish({
+      type: 'vendor-completed',
+      vendor: 'Moro',
+      success: true,
+    });
+    service.publish(prices('Moro'));
+    subscription.unsubscribe();
+    service.publish(prices('Moro'));
+
+    expect(received.map((event) => event.type)).toEqual([
+      'vendor-completed',
+      'prices',
+    ]);
+    const [, priceEvent] = received;
+    expect(
+      priceEvent.type === 'prices' &&
+        priceEvent.data.prices.map((entry) => entry.productId),
+    ).toEqual(['gold-coin-1oz']);
+  });
+});
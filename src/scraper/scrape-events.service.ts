@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject, filter, map } from 'rxjs';
+import {
+  ScrapeEvent,
+  ScrapeEventFilter,
+} from './interfaces/scrape-event.interface';
+import { VendorRegistryService } from './vendor-registry.service';
+
+@Injectable()
+export class ScrapeEventsService {
+  private readonly events = new Subject<ScrapeEvent>();
+
+  constructor(private readonly vendorRegistry: VendorRegistryService) {}
+
+  publish(event: ScrapeEvent): void {
+    this.events.next(event);
+  }
+
+  /**
+   * Live events, optionally for one vendor and/or product
+   * Product filters drop price events without offers of that product and
+   * keep only its entries; progress and completion events are unaffected
+   */
+  stream(options: ScrapeEventFilter = {}): Observable<ScrapeEvent> {
+    const vendorName = options.vendor && this.resolveVendorName(options.vendor);
+
+    return this.events.pipe(
+      filter((event) => !vendorName || event.vendor === vendorName),
+      map((event): ScrapeEvent | null => {
+        if (!options.product || event.type !== 'prices') return event;
+        const prices = event.data.prices.filter(
+          (entry) => entry.productId === options.product,
+        );
+        return prices.length > 0
+          ? { ...event, data: { ...event.data, prices } }
+          : null;
+      }),
+      filter((event) => event !== null),
+    );
+  }
+
+  /**
+   * Events carry vendor display names, subscribers may use IDs too
+   */
+  private resolveVendorName(vendor: string): string {
+    return (
+      this.vendorRegistry
+        .getVendors()
+        .find((info) => info.id === vendor || info.name === vendor)?.name ??
+      vendor
+    );
+  }
+}
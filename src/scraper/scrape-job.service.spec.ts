@@ -0,0 +1,96 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ScrapeJobService } from './scrape-job.service';
+import { ScraperService } from './scraper.service';
+import { VendorRegistryService } from './vendor-registry.service';
+import { VendorHealthService } from './vendor-health.service';
+import { ScraperResult } from './interfaces/price.interface';
+
+describe('ScrapeJobService', () => {
+  let signals: AbortSignal[];
+  let finish: (() => void)[];
+  let scrapeAll: jest.Mock;
+  let scrapeSingleVendor: jest.Mock;
+  let recordResult: jest.Mock;
+  let service: ScrapeJobService;
+
+  // Scrapes stay in flight until finished by the test
+  const inFlight = <T>(signal: AbortSignal, result: T) =>
+    new Promise<T>((resolve) => {
+      signals.push(signal);
+      finish.push(() => resolve(result));
+    });
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    signals = [];
+    finish = [];
+    scrapeAll = jest.fn((signal: AbortSignal) =>
+      inFlight<ScraperResult[]>(signal, [
+        { vendor: 'Moro', success: true },
+        { vendor: 'Plemenit', success: false, error: 'Timeout' },
+      ]),
+    );
+    scrapeSingleVendor = jest.fn((vendor: string, signal: AbortSignal) =>
+      inFlight<ScraperResult>(signal, { vendor, success: true }),
+    );
+    recordResult = jest.fn();
+    service = new ScrapeJobService(
+      { scrapeAll, scrapeSingleVendor } as unknown as ScraperService,
+      {
+        getVendors: () => [
+          { id: 'moro', name: 'Moro', enabled: true },
+          { id: 'plemenit', name: 'Plemenit', enabled: true },
+          { id: 'elementum', name: 'Elementum', enabled: false },
+        ],
+      } as unknown as VendorRegistryService,
+      { recordResult } as unknown as VendorHealthService,
+    );
+  });
+
+  it('should run jobs one at a time in queue order', async () => {
+    const full = service.enqueue();
+    const single = service.enqueue(['Moro']);
+
+    expect(full).toMatchObject({
+      state: 'running',
+      vendors: ['moro', 'plemenit'],
+    });
+    expect(single).toMatchObject({ state: 'queued', vendors: ['moro'] });
+    expect(service.hasPendingJob('moro')).toBe(true);
+
+    finish[0]();
+    await flush();
+
+    expect(full.state).toBe('completed');
+    expect(full.results).toEqual([
+      { vendor: 'Moro', success: true },
+      { vendor: 'Plemenit', success: false, error: 'Timeout' },
+    ]);
+    expect(recordResult).toHaveBeenCalledTimes(2);
+    expect(single.state).toBe('running');
+    expect(scrapeSingleVendor).toHaveBeenCalledWith('moro', signals[1]);
+  });
+
+  it('should cancel queued and running jobs', async () => {
+    const running = service.enqueue(['moro']);
+    const queued = service.enqueue(['plemenit']);
+
+    service.cancel(queued.id);
+    service.cancel(running.id);
+    expect(signals[0].aborted).toBe(true);
+
+    finish[0]();
+    await flush();
+
+    expect(running.state).toBe('cancelled');
+    expect(queued.state).toBe('cancelled');
+    expect(scrapeSingleVendor).toHaveBeenCalledTimes(1);
+    expect(recordResult).not.toHaveBeenCalled();
+    expect(() => service.cancel(running.id)).toThrow(ConflictException);
+  });
+
+  it('should reject unknown or disabled vendors', () => {
+    expect(() => service.enqueue(['elementum'])).toThrow(NotFoundException);
+    expect(() => service.getJob('missing')).toThrow(NotFoundException);
+  });
+});
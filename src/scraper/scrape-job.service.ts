@@ -0,0 +1,208 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { scraperConfig } from './config/scraper.config';
+import { ScraperResult } from './interfaces/price.interface';
+import { ScrapeJob, ScrapeJobResult } from './interfaces/scrape-job.interface';
+import { ScraperService } from './scraper.service';
+import { VendorHealthService } from './vendor-health.service';
+import { VendorRegistryService } from './vendor-registry.service';
+
+@Injectable()
+export class ScrapeJobService implements OnModuleInit {
+  private readonly logger = new Logger(ScrapeJobService.name);
+  private jobs: Map<string, ScrapeJob> = new Map();
+  private queue: ScrapeJob[] = [];
+  private controllers: Map<string, AbortController> = new Map();
+  private processing = false;
+
+  constructor(
+    private readonly scraperService: ScraperService,
+    private readonly vendorRegistry: VendorRegistryService,
+    private readonly vendorHealth: VendorHealthService,
+  ) {}
+
+  /**
+   * Queue a scrape of the given vendors (IDs or names), or of every enabled vendor
+   * Jobs run one at a time in the order they were queued
+   */
+  enqueue(vendors?: string[]): ScrapeJob {
+    const vendorIds = vendors
+      ? vendors.map((vendor) => this.resolveVendor(vendor))
+      : this.getEnabledVendorIds();
+
+    const job: ScrapeJob = {
+      id: randomUUID(),
+      vendors: Array.from(new Set(vendorIds)),
+      state: 'queued',
+      createdAt: new Date(),
+      results: [],
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    this.logger.log(
+      `Queued scrape job ${job.id} for ${job.vendors.join(', ')}`,
+    );
+
+    void this.processQueue();
+    return job;
+  }
+
+  getJob(id: string): ScrapeJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new NotFoundException(`Job not found: ${id}`);
+    }
+    return job;
+  }
+
+  /**
+   * All known jobs, newest first
+   */
+  getJobs(): ScrapeJob[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+
+  /**
+   * Check if a queued or running job already covers a vendor
+   */
+  hasPendingJob(vendor: string): boolean {
+    return Array.from(this.jobs.values()).some(
+      (job) =>
+        (job.state === 'queued' || job.state === 'running') &&
+        job.vendors.includes(vendor),
+    );
+  }
+
+  /**
+   * Cancel a job; a running job has its in-flight requests aborted
+   */
+  cancel(id: string): ScrapeJob {
+    const job = this.getJob(id);
+
+    if (job.state === 'queued') {
+      this.queue = this.queue.filter((queued) => queued !== job);
+      job.state = 'cancelled';
+      job.finishedAt = new Date();
+    } else if (job.state === 'running') {
+      this.controllers.get(id)?.abort();
+      job.state = 'cancelled';
+    } else {
+      throw new ConflictException(`Job ${id} is already ${job.state}`);
+    }
+
+    this.logger.log(`Cancelled scrape job ${id}`);
+    return job;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      for (let job = this.queue.shift(); job; job = this.queue.shift()) {
+        await this.run(job);
+        this.pruneHistory();
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async run(job: ScrapeJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    job.state = 'running';
+    job.startedAt = new Date();
+
+    try {
+      // A job covering every enabled vendor is a full scrape with progress tracking
+      const enabled = this.getEnabledVendorIds();
+      const results =
+        enabled.length === job.vendors.length &&
+        enabled.every((vendor) => job.vendors.includes(vendor))
+          ? await this.scraperService.scrapeAll(controller.signal)
+          : await Promise.all(
+              job.vendors.map((vendor) =>
+                this.scraperService.scrapeSingleVendor(
+                  vendor,
+                  controller.signal,
+                ),
+              ),
+            );
+
+      job.results = results.map((result) => this.toJobResult(result));
+      if (job.state === 'running') {
+        // Cancelled scrapes say nothing about the vendor's health
+        results.forEach((result) => this.vendorHealth.recordResult(result));
+        job.state = 'completed';
+      }
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+      if (job.state === 'running') job.state = 'failed';
+      this.logger.error(`Scrape job ${job.id} failed: ${job.error}`);
+    } finally {
+      job.finishedAt = new Date();
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private toJobResult(result: ScraperResult): ScrapeJobResult {
+    return {
+      vendor: result.vendor,
+      success: result.success,
+      priceCount: result.data?.prices.length,
+      notModified: result.data?.notModified,
+      error: result.error,
+      errorDetails: result.errorDetails,
+    };
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond the configured history size
+   */
+  private pruneHistory(): void {
+    const finished = Array.from(this.jobs.values()).filter(
+      (job) => job.finishedAt,
+    );
+    finished
+      .slice(
+        0,
+        Math.max(0, finished.length - scraperConfig.scraping.jobHistorySize),
+      )
+      .forEach((job) => this.jobs.delete(job.id));
+  }
+
+  private resolveVendor(vendor: string): string {
+    const match = this.vendorRegistry
+      .getVendors()
+      .find(
+        (info) => info.enabled && (info.id === vendor || info.name === vendor),
+      );
+    if (!match) {
+      throw new NotFoundException(`Vendor not found: ${vendor}`);
+    }
+    return match.id;
+  }
+
+  private getEnabledVendorIds(): string[] {
+    return this.vendorRegistry
+      .getVendors()
+      .filter((vendor) => vendor.enabled)
+      .map((vendor) => vendor.id);
+  }
+
+  /**
+   * Queue the initial scrape once the cache is warm
+   * Non-blocking - server will start even if the scrape fails
+   */
+  onModuleInit() {
+    this.logger.log('Queueing initial scrape of all vendors...');
+    this.enqueue();
+  }
+}
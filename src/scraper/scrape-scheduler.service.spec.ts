@@ -0,0 +1,135 @@
+import { BadRequestException } from '@nestjs/common';
+import { ScrapeSchedulerService } from './scrape-scheduler.service';
+import { ScrapeJobService } from './scrape-job.service';
+import { SpotPriceService } from './spot-price.service';
+import { VendorRegistryService } from './vendor-registry.service';
+import { VendorHealthService } from './vendor-health.service';
+import { SpotPrice } from './interfaces/spot-price.interface';
+import { SchedulePolicy } from './interfaces/schedule.interface';
+
+describe('ScrapeSchedulerService', () => {
+  // Monday 2026-10-19, Europe/Zagreb is UTC+2
+  const monday = (localTime: string) =>
+    new Date(`2026-10-19T${localTime}:00+02:00`);
+  const saturday = new Date('2026-10-24T12:00:00+02:00');
+
+  let spotPrices: SpotPrice[];
+  let enqueue: jest.Mock;
+  let available: boolean;
+  let service: ScrapeSchedulerService;
+
+  beforeEach(() => {
+    spotPrices = [];
+    enqueue = jest.fn();
+    available = true;
+    service = new ScrapeSchedulerService(
+      {
+        enqueue,
+        hasPendingJob: () => false,
+      } as unknown as ScrapeJobService,
+      {
+        getVendors: () => [{ id: 'moro', enabled: true }],
+      } as unknown as VendorRegistryService,
+      {
+        getCurrentSpotPrices: () => spotPrices,
+      } as unknown as SpotPriceService,
+      {
+        isAvailable: () => available,
+      } as unknown as VendorHealthService,
+    );
+    service.updatePolicy('moro', {
+      intervalMinutes: 5,
+      quietHours: { start: 22, end: 6, intervalMinutes: null },
+      weekend: { intervalMinutes: 60 },
+      spotAcceleration: {
+        thresholdPercent: 1,
+        intervalMinutes: 1,
+        durationMinutes: 30,
+      },
+    });
+  });
+
+  it('should apply quiet hours and weekend policies', () => {
+    service.tick(monday('12:00'));
+
+    expect(service.getSchedule('moro', monday('12:01'))).toMatchObject({
+      mode: 'normal',
+      nextRunAt: monday('12:05'),
+    });
+    expect(service.getSchedule('moro', monday('23:00'))).toMatchObject({
+      mode: 'paused',
+      nextRunAt: undefined,
+    });
+    expect(service.getSchedule('moro', saturday).mode).toBe('weekend');
+  });
+
+  it('should queue jobs for vendors when they are due', () => {
+    service.tick(monday('12:00'));
+    service.tick(monday('12:03'));
+    service.tick(monday('12:05'));
+
+    expect(enqueue).toHaveBeenCalledTimes(2);
+    expect(enqueue).toHaveBeenCalledWith(['moro']);
+  });
+
+  it('should skip vendors with an open circuit', () => {
+    available = false;
+    service.tick(monday('12:00'));
+
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should follow cron expressions in normal mode', () => {
+    service.updatePolicy('moro', { cron: '0 */15 * * * *' });
+    service.tick(monday('12:00'));
+
+    expect(service.getSchedule('moro', monday('12:01')).nextRunAt).toEqual(
+      monday('12:15'),
+    );
+  });
+
+  it('should accelerate after a sharp spot move', () => {
+    const spot = (pricePerOunce: number, fetchedAt: Date): SpotPrice => ({
+      metal: 'gold',
+      pricePerOunce,
+      currency: 'EUR',
+      provider: 'test',
+      fetchedAt,
+    });
+    spotPrices = [spot(2500, monday('11:50'))];
+    service.tick(monday('12:00'));
+    spotPrices = [spot(2550, monday('12:00'))];
+    service.tick(monday('12:00'));
+
+    expect(service.getSchedule('moro', monday('12:00'))).toMatchObject({
+      mode: 'accelerated',
+      nextRunAt: monday('12:01'),
+    });
+  });
+
+  it('should reject invalid schedule changes', () => {
+    expect(() =>
+      service.updatePolicy('moro', { cron: 'every minute' }),
+    ).toThrow(BadRequestException);
+    expect(() => service.updatePolicy('moro', { intervalMinutes: -1 })).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      service.updatePolicy('moro', {
+        spotAcceleration: null,
+      } as unknown as Partial<SchedulePolicy>),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      service.updatePolicy('moro', {
+        weekend: 'off',
+      } as unknown as Partial<SchedulePolicy>),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      service.updatePolicy('moro', {
+        intervalMinutes: 10,
+        enabled: false,
+      } as unknown as Partial<SchedulePolicy>),
+    ).toThrow(BadRequestException);
+    expect(service.getSchedule('moro').policy).not.toHaveProperty('enabled');
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { CronTime } from 'cron';
+import { scraperConfig } from './config/scraper.config';
+import { Metal } from './interfaces/price.interface';
+import {
+  ScheduleMode,
+  SchedulePolicy,
+  VendorSchedule,
+} from './interfaces/schedule.interface';
+import { VendorConfig } from './interfaces/vendor-config.interface';
+import { SpotPrice } from './interfaces/spot-price.interface';
+import { ScrapeJobService } from './scrape-job.service';
+import { SpotPriceService } from './spot-price.service';
+import { VendorHealthService } from './vendor-health.service';
+import { VendorRegistryService } from './vendor-registry.service';
+
+// Fields a schedule change may set, anything else is rejected instead of being stored
+const POLICY_KEYS: (keyof SchedulePolicy)[] = [
+  'cron',
+  'intervalMinutes',
+  'quietHours',
+  'weekend',
+  'spotAcceleration',
+];
+
+@Injectable()
+export class ScrapeSchedulerService implements OnModuleInit {
+  private readonly logger = new Logger(ScrapeSchedulerService.name);
+  private readonly timezone = scraperConfig.scheduling.timezone;
+  private overrides: Map<string, Partial<SchedulePolicy>> = new Map();
+  private lastRunAt: Map<string, Date> = new Map();
+  private lastSpot: Map<Metal, SpotPrice> = new Map();
+  private acceleratedUntil?: Date;
+
+  constructor(
+    private readonly scrapeJobs: ScrapeJobService,
+    private readonly vendorRegistry: VendorRegistryService,
+    private readonly spotPriceService: SpotPriceService,
+    private readonly vendorHealth: VendorHealthService,
+  ) {}
+
+  /**
+   * Effective policy of a vendor: defaults, then vendor config, then runtime changes
+   */
+  getPolicy(vendor: string): SchedulePolicy {
+    const vendors: Record<string, VendorConfig | undefined> =
+      scraperConfig.vendors;
+    return {
+      intervalMinutes: scraperConfig.scraping.intervalMinutes,
+      ...scraperConfig.scheduling.defaults,
+      ...vendors[vendor]?.schedule,
+      ...this.overrides.get(vendor),
+    };
+  }
+
+  /**
+   * Current schedule of every enabled vendor
+   */
+  getSchedules(now = new Date()): VendorSchedule[] {
+    return this.vendorRegistry
+      .getVendors()
+      .filter((vendor) => vendor.enabled)
+      .map((vendor) => this.getSchedule(vendor.id, now));
+  }
+
+  getSchedule(vendor: string, now = new Date()): VendorSchedule {
+    const policy = this.getPolicy(vendor);
+    const lastRunAt = this.lastRunAt.get(vendor);
+    const { mode, nextRunAt } = this.resolve(policy, lastRunAt, now);
+    return { vendor, policy, mode, lastRunAt, nextRunAt };
+  }
+
+  /**
+   * Change a vendor's schedule at runtime; changes are kept until reset or restart
+   */
+  updatePolicy(
+    vendor: string,
+    changes: Partial<SchedulePolicy>,
+  ): VendorSchedule {
+    this.assertVendor(vendor);
+    this.validate(changes);
+    this.overrides.set(vendor, { ...this.overrides.get(vendor), ...changes });
+    this.logger.log(
+      `Schedule of ${vendor} changed: ${JSON.stringify(changes)}`,
+    );
+    return this.getSchedule(vendor);
+  }
+
+  /**
+   * Drop runtime changes so the configured schedule applies again
+   */
+  resetPolicy(vendor: string): VendorSchedule {
+    this.assertVendor(vendor);
+    this.overrides.delete(vendor);
+    return this.getSchedule(vendor);
+  }
+
+  /**
+   * Check every minute which vendors are due and queue scrape jobs for them
+   */
+  @Interval(60000)
+  tick(now = new Date()): void {
+    this.detectSpotMove(now);
+
+    // Vendors with a queued or running job (e.g. a manual refresh) are covered already,
+    // vendors with an open circuit wait for their backoff to end
+    const due = this.getSchedules(now).filter(
+      (schedule) =>
+        schedule.nextRunAt &&
+        schedule.nextRunAt <= now &&
+        !this.scrapeJobs.hasPendingJob(schedule.vendor) &&
+        this.vendorHealth.isAvailable(schedule.vendor, now),
+    );
+
+    due.forEach(({ vendor, mode }) => {
+      this.lastRunAt.set(vendor, now);
+      this.logger.log(`Queueing scheduled scraping of ${vendor} (${mode})`);
+      this.scrapeJobs.enqueue([vendor]);
+    });
+  }
+
+  /**
+   * Work out the mode and next run from the policy and the local time
+   * Pauses always win; a spot move speeds up any other mode
+   */
+  private resolve(
+    policy: SchedulePolicy,
+    lastRunAt: Date | undefined,
+    now: Date,
+  ): { mode: ScheduleMode; nextRunAt?: Date } {
+    const { hour, weekday } = this.getLocalTime(now);
+    const isWeekend = weekday === 'Sat' || weekday === 'Sun';
+    const quiet = policy.quietHours;
+    const isQuiet =
+      !!quiet &&
+      (quiet.start <= quiet.end
+        ? hour >= quiet.start && hour < quiet.end
+        : hour >= quiet.start || hour < quiet.end);
+
+    let mode: ScheduleMode = 'normal';
+    let intervalMinutes: number | null = policy.intervalMinutes;
+    if (isWeekend && policy.weekend) {
+      mode = 'weekend';
+      intervalMinutes = policy.weekend.intervalMinutes;
+    } else if (isQuiet && quiet) {
+      mode = 'quiet-hours';
+      intervalMinutes = quiet.intervalMinutes;
+    }
+    if (intervalMinutes === null) return { mode: 'paused' };
+    // Never scraped yet, so it is due right away
+    if (!lastRunAt) return { mode, nextRunAt: now };
+
+    let nextRunAt =
+      mode === 'normal' && policy.cron
+        ? new CronTime(policy.cron, this.timezone)
+            .getNextDateFrom(lastRunAt, this.timezone)
+            .toJSDate()
+        : new Date(lastRunAt.getTime() + intervalMinutes * 60000);
+
+    const acceleration = policy.spotAcceleration;
+    if (acceleration && this.acceleratedUntil && now < this.acceleratedUntil) {
+      const accelerated = new Date(
+        lastRunAt.getTime() + acceleration.intervalMinutes * 60000,
+      );
+      if (accelerated < nextRunAt) {
+        mode = 'accelerated';
+        nextRunAt = accelerated;
+      }
+    }
+
+    return { mode, nextRunAt };
+  }
+
+  /**
+   * Compare fresh spot prices with the previous refresh and start acceleration on sharp moves
+   */
+  private detectSpotMove(now: Date): void {
+    const thresholds = this.getSchedules(now)
+      .map((schedule) => schedule.policy.spotAcceleration)
+      .filter((acceleration) => acceleration != null);
+    if (thresholds.length === 0) return;
+
+    this.spotPriceService.getCurrentSpotPrices().forEach((spot) => {
+      const previous = this.lastSpot.get(spot.metal);
+      if (previous && previous.fetchedAt >= spot.fetchedAt) return;
+      this.lastSpot.set(spot.metal, spot);
+      if (!previous) return;
+
+      const movePercent =
+        (Math.abs(spot.pricePerOunce - previous.pricePerOunce) /
+          previous.pricePerOunce) *
+        100;
+      const triggered = thresholds.filter(
+        (acceleration) => movePercent >= acceleration.thresholdPercent,
+      );
+      if (triggered.length === 0) return;
+
+      const durationMinutes = Math.max(
+        ...triggered.map((acceleration) => acceleration.durationMinutes),
+      );
+      this.acceleratedUntil = new Date(now.getTime() + durationMinutes * 60000);
+      this.logger.log(
+        `Spot ${spot.metal} moved ${movePercent.toFixed(2)}%, accelerating scraping for ${durationMinutes} minutes`,
+      );
+    });
+  }
+
+  private getLocalTime(date: Date): { hour: number; weekday: string } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timezone,
+      hour: 'numeric',
+      hourCycle: 'h23',
+      weekday: 'short',
+    }).formatToParts(date);
+    const part = (type: string) =>
+      parts.find((p) => p.type === type)?.value ?? '';
+    return { hour: Number(part('hour')), weekday: part('weekday') };
+  }
+
+  private assertVendor(vendor: string): void {
+    if (!this.vendorRegistry.getVendors().some((v) => v.id === vendor)) {
+      throw new NotFoundException(`Vendor not found: ${vendor}`);
+    }
+  }
+
+  private validate(changes: Partial<SchedulePolicy>): void {
+    const isInterval = (value: unknown) =>
+      value === null || (typeof value === 'number' && value > 0);
+    // Nested settings are given as a whole, null or a scalar is never valid
+    const isInvalidObject = (value: unknown) =>
+      value !== undefined &&
+      (typeof value !== 'object' || value === null || Array.isArray(value));
+
+    if (changes === undefined || isInvalidObject(changes)) {
+      throw new BadRequestException('Schedule changes must be an object');
+    }
+    const unknownKeys = Object.keys(changes).filter(
+      (key) => !POLICY_KEYS.includes(key as keyof SchedulePolicy),
+    );
+    if (unknownKeys.length > 0) {
+      throw new BadRequestException(
+        `Unknown schedule settings: ${unknownKeys.join(', ')}`,
+      );
+    }
+    if (changes.cron !== undefined) {
+      if (!CronTime.validateCronExpression(changes.cron).valid) {
+        throw new BadRequestException(
+          `Invalid cron expression: ${changes.cron}`,
+        );
+      }
+    }
+    if (
+      changes.intervalMinutes !== undefined &&
+      !(
+        typeof changes.intervalMinutes === 'number' &&
+        changes.intervalMinutes > 0
+      )
+    ) {
+      throw new BadRequestException(
+        'intervalMinutes must be a positive number',
+      );
+    }
+    const quiet = changes.quietHours;
+    if (
+      isInvalidObject(quiet) ||
+      (quiet &&
+        (![quiet.start, quiet.end].every(
+          (hour) => Number.isInteger(hour) && hour >= 0 && hour < 24,
+        ) ||
+          !isInterval(quiet.intervalMinutes)))
+    ) {
+      throw new BadRequestException(
+        'quietHours needs start/end hours (0-23) and an intervalMinutes (or null to pause)',
+      );
+    }
+    if (
+      isInvalidObject(changes.weekend) ||
+      (changes.weekend && !isInterval(changes.weekend.intervalMinutes))
+    ) {
+      throw new BadRequestException(
+        'weekend.intervalMinutes must be a positive number or null',
+      );
+    }
+    const acceleration = changes.spotAcceleration;
+    if (
+      isInvalidObject(acceleration) ||
+      (acceleration &&
+        ![
+          acceleration.thresholdPercent,
+          acceleration.intervalMinutes,
+          acceleration.durationMinutes,
+        ].every((value) => typeof value === 'number' && value > 0))
+    ) {
+      throw new BadRequestException(
+        'spotAcceleration needs positive thresholdPercent, intervalMinutes and durationMinutes',
+      );
+    }
+  }
+
+  /**
+   * The startup scrape job covers every vendor, so schedules start counting from now
+   */
+  onModuleInit() {
+    const now = new Date();
+    this.vendorRegistry.getVendors().forEach((vendor) => {
+      this.lastRunAt.set(vendor.id, now);
+    });
+  }
+}
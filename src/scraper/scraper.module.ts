@@ -1,10 +1,53 @@
 import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { ScraperService } from './scraper.service';
+import { PriceHistoryService } from './price-history.service';
+import { PriceMetricsService } from './price-metrics.service';
+import { SpotPriceService } from './spot-price.service';
+import { PriceQuoteService } from './price-quote.service';
+import { ProductCatalogService } from './product-catalog.service';
+import { VendorRegistryService } from './vendor-registry.service';
+import { VendorHealthService } from './vendor-health.service';
+import { ScrapeEventsService } from './scrape-events.service';
+import { ScrapeJobService } from './scrape-job.service';
+import { ScrapeSchedulerService } from './scrape-scheduler.service';
+import { scraperConfig } from './config/scraper.config';
+import { PRICE_REPOSITORY } from './interfaces/price-repository.interface';
+import { SqlitePriceRepository } from './storage/sqlite-price.repository';
 
 @Module({
   imports: [ScheduleModule.forRoot()],
-  providers: [ScraperService],
-  exports: [ScraperService],
+  providers: [
+    {
+      provide: PRICE_REPOSITORY,
+      useFactory: () =>
+        new SqlitePriceRepository(scraperConfig.storage.databasePath),
+    },
+    // First, so its onModuleInit loads shop definitions before other services read vendors
+    VendorRegistryService,
+    ScraperService,
+    PriceHistoryService,
+    PriceMetricsService,
+    SpotPriceService,
+    PriceQuoteService,
+    ProductCatalogService,
+    VendorHealthService,
+    ScrapeEventsService,
+    ScrapeJobService,
+    ScrapeSchedulerService,
+  ],
+  exports: [
+    ScraperService,
+    PriceHistoryService,
+    SpotPriceService,
+    PriceQuoteService,
+    ProductCatalogService,
+    VendorRegistryService,
+    VendorHealthService,
+    ScrapeEventsService,
+    ScrapeJobService,
+    ScrapeSchedulerService,
+    PRICE_REPOSITORY,
+  ],
 })
 export class ScraperModule {}
@@ -0,0 +1,102 @@
+import { ScraperService } from './scraper.service';
+import { PriceRepository } from './interfaces/price-repository.interface';
+import { PriceMetricsService } from './price-metrics.service';
+import { ProductCatalogService } from './product-catalog.service';
+import { VendorRegistryService } from './vendor-registry.service';
+import { ScrapeEventsService } from './scrape-events.service';
+import { VendorHealthService } from './vendor-health.service';
+import { VendorPriceData } from './interfaces/price.interface';
+
+describe('ScraperService', () => {
+  const start = new Date('2026-10-19T12:00:00Z');
+  const minutesLater = (minutes: number) =>
+    new Date(start.getTime() + minutes * 60000);
+  const timeout = {
+    success: false,
+    error: 'Timeout',
+    errorDetails: { code: 'NETWORK_TIMEOUT' as const, message: 'Timeout' },
+  };
+  let scrape: jest.Mock;
+  let health: VendorHealthService;
+  let service: ScraperService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: start });
+    scrape = jest.fn();
+    const parser = { getVendorName: () => 'Moro', scrape };
+    const registry = {
+      findParser: () => parser,
+      getVendors: () => [
+        { id: 'moro', name: 'Moro', enabled: true, sources: [] },
+        {
+          id: 'plemenit',
+          name: 'Plemenit',
+          enabled: true,
+          sources: [{ url: 'https://plemenit.hr/' }],
+        },
+      ],
+    } as unknown as VendorRegistryService;
+    health = new VendorHealthService(registry);
+    service = new ScraperService(
+      { saveSnapshot: () => Promise.resolve() } as unknown as PriceRepository,
+      { enrich: (data: VendorPriceData) => data } as PriceMetricsService,
+      { match: (data: VendorPriceData) => data } as ProductCatalogService,
+      registry,
+      { publish: jest.fn() } as unknown as ScrapeEventsService,
+      health,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep the last good prices with failure metadata and mark them stale', async () => {
+    scrape.mockResolvedValueOnce({
+      vendor: 'Moro',
+      url: 'https://moro.hr',
+      scrapedAt: start,
+      prices: [{ unit: 'gram', price: 100 }],
+    });
+    health.recordResult(await service.scrapeSingleVendor('moro'), start);
+    health.recordResult({ vendor: 'Moro', ...timeout }, minutesLater(5));
+    health.recordResult({ vendor: 'Moro', ...timeout }, minutesLater(10));
+
+    expect(service.getPricesWithFreshness(true, minutesLater(10))).toEqual([
+      expect.objectContaining({
+        prices: [{ unit: 'gram', price: 100 }],
+        lastSuccessAt: start,
+        lastAttemptAt: minutesLater(10),
+        lastError: 'Timeout',
+        lastErrorDetails: { code: 'NETWORK_TIMEOUT', message: 'Timeout' },
+        consecutiveFailures: 2,
+        stale: false,
+      }),
+    ]);
+
+    const later = minutesLater(180);
+    expect(service.getPricesWithFreshness(true, later)[0].stale).toBe(true);
+    expect(service.getPricesWithFreshness(false, later)).toEqual([]);
+  });
+
+  it('should list vendors that failed before any scrape succeeded', () => {
+    health.recordResult({ vendor: 'plemenit', ...timeout }, start);
+
+    expect(service.getPricesWithFreshness(true, start)).toEqual([
+      {
+        vendor: 'Plemenit',
+        url: 'https://plemenit.hr/',
+        scrapedAt: start,
+        prices: [],
+        error: 'Timeout',
+        errorDetails: { code: 'NETWORK_TIMEOUT', message: 'Timeout' },
+        lastAttemptAt: start,
+        lastError: 'Timeout',
+        lastErrorDetails: { code: 'NETWORK_TIMEOUT', message: 'Timeout' },
+        consecutiveFailures: 1,
+        stale: true,
+      },
+    ]);
+    expect(service.getPricesWithFreshness(false, start)).toEqual([]);
+  });
+});
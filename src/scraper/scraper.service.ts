@@ -1,19 +1,26 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  VendorPriceData,
+  ScraperResult,
+  VendorPriceStatus,
+} from './interfaces/price.interface';
+import {
+  PRICE_REPOSITORY,
+  PriceRepository,
+} from './interfaces/price-repository.interface';
+import { PriceMetricsService } from './price-metrics.service';
+import { ProductCatalogService } from './product-catalog.service';
+import { VendorRegistryService } from './vendor-registry.service';
+import { PARSER_PROGRESS_SHARE } from './parsers/base.parser';
 import { scraperConfig } from './config/scraper.config';
-import { VendorPriceData, ScraperResult } from './interfaces/price.interface';
-import { GvsCroatiaParser } from './parsers/gvs-croatia.parser';
-import { PlemenitParser } from './parsers/plemenit.parser';
-import { MoroParser } from './parsers/moro.parser';
-import { CentarZlataParser } from './parsers/centar-zlata.parser';
-import { BaseParser } from './parsers/base.parser';
-
-export interface ScrapingProgress {
-  vendor: string;
-  status: 'pending' | 'scraping' | 'completed' | 'error';
-  progress: number; // 0-100
-  error?: string;
-}
+import { ScrapingProgress } from './interfaces/progress.interface';
+import { ScrapeEventsService } from './scrape-events.service';
+import { VendorHealthService } from './vendor-health.service';
+import {
+  ScrapeCancelledError,
+  toScrapeErrorPayload,
+} from './errors/scrape.errors';
 
 @Injectable()
 export class ScraperService implements OnModuleInit {
@@ -22,26 +29,21 @@ export class ScraperService implements OnModuleInit {
   private isScraping = false;
   private scrapingProgress: Map<string, ScrapingProgress> = new Map();
 
-  private parsers: BaseParser[] = [
-    new GvsCroatiaParser(
-      scraperConfig.vendors.gvsCroatia.name,
-      scraperConfig.vendors.gvsCroatia.url,
-    ),
-    new PlemenitParser(
-      scraperConfig.vendors.plemenit.name,
-      scraperConfig.vendors.plemenit.url,
-    ),
-    new MoroParser(scraperConfig.vendors.moro.name, scraperConfig.vendors.moro.url),
-    new CentarZlataParser(
-      scraperConfig.vendors.centarZlata.name,
-      scraperConfig.vendors.centarZlata.url,
-    ),
-  ];
+  constructor(
+    @Inject(PRICE_REPOSITORY)
+    private readonly priceRepository: PriceRepository,
+    private readonly priceMetricsService: PriceMetricsService,
+    private readonly productCatalogService: ProductCatalogService,
+    private readonly vendorRegistry: VendorRegistryService,
+    private readonly scrapeEvents: ScrapeEventsService,
+    private readonly vendorHealth: VendorHealthService,
+  ) {}
 
   /**
    * Scrape all vendors and cache results
+   * @param signal Optional signal that cancels the scrape (see ScrapeJobService)
    */
-  async scrapeAll(): Promise<ScraperResult[]> {
+  async scrapeAll(signal?: AbortSignal): Promise<ScraperResult[]> {
     if (this.isScraping) {
       this.logger.warn('Scraping already in progress, skipping...');
       return this.getCurrentResults();
@@ -52,8 +54,9 @@ export class ScraperService implements OnModuleInit {
 
     // Initialize progress tracking
     this.scrapingProgress.clear();
-    this.parsers.forEach((parser) => {
-      this.scrapingProgress.set(parser.getVendorName(), {
+    const parsers = this.vendorRegistry.getEnabledParsers();
+    parsers.forEach((parser) => {
+      this.updateProgress({
         vendor: parser.getVendorName(),
         status: 'pending',
         progress: 0,
@@ -66,12 +69,12 @@ export class ScraperService implements OnModuleInit {
 
       // Start all scrapers in parallel using Promise.allSettled
       // This ensures all vendors are scraped even if some fail
-      const scrapingPromises = this.parsers.map(async (parser) => {
+      const scrapingPromises = parsers.map(async (parser) => {
         const vendorName = parser.getVendorName();
         this.logger.log(`Starting scraping ${vendorName}...`);
 
         // Update progress to scraping (start at 0%)
-        this.scrapingProgress.set(vendorName, {
+        this.updateProgress({
           vendor: vendorName,
           status: 'scraping',
           progress: 0,
@@ -79,55 +82,75 @@ export class ScraperService implements OnModuleInit {
 
         try {
           // Pass progress callback to track real-time progress
-          const data = await parser.scrape((progress: number) => {
-            this.scrapingProgress.set(vendorName, {
+          const scraped = await parser.scrape((update) => {
+            this.updateProgress({
               vendor: vendorName,
               status: 'scraping',
-              progress,
+              ...update,
             });
+          }, signal);
+          if (signal?.aborted) throw new ScrapeCancelledError();
+          this.updateProgress({
+            vendor: vendorName,
+            status: 'scraping',
+            progress: PARSER_PROGRESS_SHARE,
+            phase: 'validate',
+            message: `Validating ${scraped.prices.length} prices`,
           });
+          const data = this.productCatalogService.match(
+            this.priceMetricsService.enrich(scraped),
+          );
+
+          await this.persistSnapshot(data);
 
           if (data.error) {
             this.logger.error(`Error scraping ${data.vendor}: ${data.error}`);
-            this.scrapingProgress.set(vendorName, {
+            this.updateProgress({
               vendor: vendorName,
               status: 'error',
               progress: 100, // 100% because it's done (even if with error)
               error: data.error,
+              errorDetails: data.errorDetails,
             });
-            return {
+            return this.publishResult({
               vendor: data.vendor,
               success: false,
               error: data.error,
-            };
+              errorDetails: data.errorDetails,
+            });
           } else {
             this.cachedPrices.set(data.vendor, data);
-            this.scrapingProgress.set(vendorName, {
+            this.updateProgress({
               vendor: vendorName,
               status: 'completed',
               progress: 100, // 100% because it's completed
+              message: data.notModified
+                ? `Not modified, ${data.prices.length} prices`
+                : `${data.prices.length} prices found`,
             });
             this.logger.log(`Successfully scraped ${data.vendor}: ${data.prices.length} prices found`);
-            return {
+            return this.publishResult({
               vendor: data.vendor,
               success: true,
               data,
-            };
+            });
           }
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          this.logger.error(`Failed to scrape ${vendorName}: ${errorMessage}`);
-          this.scrapingProgress.set(vendorName, {
+          const errorDetails = toScrapeErrorPayload(error);
+          this.logger.error(`Failed to scrape ${vendorName}: [${errorDetails.code}] ${errorDetails.message}`);
+          this.updateProgress({
             vendor: vendorName,
             status: 'error',
             progress: 100, // 100% because it's done (even if with error)
-            error: errorMessage,
+            error: errorDetails.message,
+            errorDetails,
           });
-          return {
+          return this.publishResult({
             vendor: vendorName,
             success: false,
-            error: errorMessage,
-          };
+            error: errorDetails.message,
+            errorDetails,
+          });
         }
       });
 
@@ -163,24 +186,31 @@ export class ScraperService implements OnModuleInit {
 
   /**
    * Scrape a single vendor and cache result
+   * @param vendor Vendor ID or display name of an enabled vendor
+   * @param signal Optional signal that cancels the scrape
    */
-  async scrapeSingleVendor(vendorName: string): Promise<ScraperResult> {
+  async scrapeSingleVendor(
+    vendor: string,
+    signal?: AbortSignal,
+  ): Promise<ScraperResult> {
     // Find the parser for this vendor
-    const parser = this.parsers.find(p => p.getVendorName() === vendorName);
+    const parser = this.vendorRegistry.findParser(vendor);
     
     if (!parser) {
-      this.logger.error(`Parser not found for vendor: ${vendorName}`);
+      this.logger.error(`Parser not found for vendor: ${vendor}`);
       return {
-        vendor: vendorName,
+        vendor,
         success: false,
-        error: `Vendor not found: ${vendorName}`,
+        error: `Vendor not found: ${vendor}`,
       };
     }
 
+    const vendorName = parser.getVendorName();
+
     this.logger.log(`Starting scraping ${vendorName}...`);
 
     // Initialize progress for this vendor
-    this.scrapingProgress.set(vendorName, {
+    this.updateProgress({
       vendor: vendorName,
       status: 'scraping',
       progress: 0,
@@ -188,34 +218,52 @@ export class ScraperService implements OnModuleInit {
 
     try {
       // Scrape with progress callback
-      const data = await parser.scrape((progress: number) => {
-        this.scrapingProgress.set(vendorName, {
+      const scraped = await parser.scrape((update) => {
+        this.updateProgress({
           vendor: vendorName,
           status: 'scraping',
-          progress,
+          ...update,
         });
+      }, signal);
+      if (signal?.aborted) throw new ScrapeCancelledError();
+      this.updateProgress({
+        vendor: vendorName,
+        status: 'scraping',
+        progress: PARSER_PROGRESS_SHARE,
+        phase: 'validate',
+        message: `Validating ${scraped.prices.length} prices`,
       });
+      const data = this.productCatalogService.match(
+        this.priceMetricsService.enrich(scraped),
+      );
+
+      await this.persistSnapshot(data);
 
       if (data.error) {
         this.logger.error(`Error scraping ${data.vendor}: ${data.error}`);
-        this.scrapingProgress.set(vendorName, {
+        this.updateProgress({
           vendor: vendorName,
           status: 'error',
           progress: 100,
           error: data.error,
+          errorDetails: data.errorDetails,
         });
-        return {
+        return this.publishResult({
           vendor: data.vendor,
           success: false,
           error: data.error,
-        };
+          errorDetails: data.errorDetails,
+        });
       } else {
         // Update cache with new data
         this.cachedPrices.set(data.vendor, data);
-        this.scrapingProgress.set(vendorName, {
+        this.updateProgress({
           vendor: vendorName,
           status: 'completed',
           progress: 100,
+          message: data.notModified
+            ? `Not modified, ${data.prices.length} prices`
+            : `${data.prices.length} prices found`,
         });
         this.logger.log(`Successfully scraped ${data.vendor}: ${data.prices.length} prices found`);
         
@@ -224,20 +272,21 @@ export class ScraperService implements OnModuleInit {
           this.scrapingProgress.delete(vendorName);
         }, 3000);
         
-        return {
+        return this.publishResult({
           vendor: data.vendor,
           success: true,
           data,
-        };
+        });
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error(`Failed to scrape ${vendorName}: ${errorMessage}`);
-      this.scrapingProgress.set(vendorName, {
+      const errorDetails = toScrapeErrorPayload(error);
+      this.logger.error(`Failed to scrape ${vendorName}: [${errorDetails.code}] ${errorDetails.message}`);
+      this.updateProgress({
         vendor: vendorName,
         status: 'error',
         progress: 100,
-        error: errorMessage,
+        error: errorDetails.message,
+        errorDetails,
       });
       
       // Clear progress after delay
@@ -245,11 +294,12 @@ export class ScraperService implements OnModuleInit {
         this.scrapingProgress.delete(vendorName);
       }, 3000);
       
-      return {
+      return this.publishResult({
         vendor: vendorName,
         success: false,
-        error: errorMessage,
-      };
+        error: errorDetails.message,
+        errorDetails,
+      });
     }
   }
 
@@ -260,6 +310,64 @@ export class ScraperService implements OnModuleInit {
     return Array.from(this.cachedPrices.values());
   }
 
+  /**
+   * Get cached prices with each vendor's freshness, from the vendor health records
+   * Vendors whose scrapes failed before any succeeded are listed without prices
+   * @param includeStale Whether vendors past a staleness threshold are returned
+   */
+  getPricesWithFreshness(
+    includeStale = true,
+    now = new Date(),
+  ): VendorPriceStatus[] {
+    const { maxAgeMinutes, maxConsecutiveFailures } =
+      scraperConfig.scraping.staleness;
+    const vendors = this.vendorRegistry.getVendors();
+
+    const cached = this.getCurrentPrices().map((data) => {
+      const lastSuccessAt = new Date(data.scrapedAt);
+      // Prices are keyed by display name, health by vendor ID
+      const health = this.vendorHealth.getVendorHealth(
+        vendors.find((info) => info.name === data.vendor)?.id ?? data.vendor,
+      );
+      return {
+        ...data,
+        lastSuccessAt,
+        // Attempts before a restart are unknown, the stored snapshot is the latest one we know of
+        lastAttemptAt: health.lastAttemptAt ?? lastSuccessAt,
+        lastError: health.lastError,
+        lastErrorDetails: health.lastErrorDetails,
+        consecutiveFailures: health.consecutiveFailures,
+        stale:
+          now.getTime() - lastSuccessAt.getTime() > maxAgeMinutes * 60000 ||
+          health.consecutiveFailures >= maxConsecutiveFailures,
+      };
+    });
+
+    const failed = vendors
+      .filter((info) => info.enabled && !this.cachedPrices.has(info.name))
+      .flatMap((info): VendorPriceStatus[] => {
+        const health = this.vendorHealth.getVendorHealth(info.id);
+        if (!health.lastAttemptAt) return [];
+        return [
+          {
+            vendor: info.name,
+            url: info.sources[0]?.url ?? '',
+            scrapedAt: health.lastAttemptAt,
+            prices: [],
+            error: health.lastError,
+            errorDetails: health.lastErrorDetails,
+            lastAttemptAt: health.lastAttemptAt,
+            lastError: health.lastError,
+            lastErrorDetails: health.lastErrorDetails,
+            consecutiveFailures: health.consecutiveFailures,
+            stale: true,
+          },
+        ];
+      });
+
+    return [...cached, ...failed].filter((data) => includeStale || !data.stale);
+  }
+
   /**
    * Get current results in ScraperResult format
    */
@@ -269,6 +377,7 @@ export class ScraperService implements OnModuleInit {
       success: !data.error,
       data: data.error ? undefined : data,
       error: data.error,
+      errorDetails: data.errorDetails,
     }));
   }
 
@@ -287,30 +396,104 @@ export class ScraperService implements OnModuleInit {
   }
 
   /**
-   * Scheduled task - scrape automatically every X minutes
+   * Track a vendor's progress and push it to stream subscribers
    */
-  @Cron(CronExpression.EVERY_5_MINUTES)
-  async handleScheduledScraping() {
-    this.logger.log('Running scheduled scraping...');
-    await this.scrapeAll();
+  private updateProgress(progress: ScrapingProgress): void {
+    this.scrapingProgress.set(progress.vendor, progress);
+    this.scrapeEvents.publish({
+      type: 'progress',
+      vendor: progress.vendor,
+      progress,
+    });
   }
 
   /**
-   * Helper to delay execution
+   * Push a vendor's outcome, and its new prices on success, to stream subscribers
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private publishResult(result: ScraperResult): ScraperResult {
+    this.scrapeEvents.publish({
+      type: 'vendor-completed',
+      vendor: result.vendor,
+      success: result.success,
+      priceCount: result.data?.prices.length,
+      notModified: result.data?.notModified,
+      error: result.error,
+      errorDetails: result.errorDetails,
+    });
+    if (result.data) {
+      this.scrapeEvents.publish({
+        type: 'prices',
+        vendor: result.vendor,
+        data: result.data,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Save a scraped snapshot to the repository
+   * Storage failures are logged but never fail the scrape itself
+   */
+  private async persistSnapshot(data: VendorPriceData): Promise<void> {
+    try {
+      await this.priceRepository.saveSnapshot(data);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to persist snapshot for ${data.vendor}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Delete snapshots older than the configured retention
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneSnapshots(): Promise<void> {
+    const before = new Date(
+      Date.now() - scraperConfig.storage.retentionDays * 86400000,
+    );
+    try {
+      const deleted = await this.priceRepository.pruneSnapshots(before);
+      this.logger.log(
+        `Pruned ${deleted} snapshots older than ${before.toISOString()}`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to prune snapshots: ${errorMessage}`);
+    }
   }
 
   /**
-   * Initialize scraping on service start
-   * Non-blocking - server will start even if initial scrape fails
+   * Load the latest stored snapshots into the in-memory cache
+   */
+  private async warmCache(): Promise<void> {
+    try {
+      const snapshots = await this.priceRepository.getLatestSnapshots();
+      snapshots.forEach((snapshot) => {
+        // Re-match so stored entries follow the current catalog
+        this.cachedPrices.set(
+          snapshot.vendor,
+          this.productCatalogService.match(snapshot),
+        );
+      });
+      this.logger.log(
+        `Warmed price cache with ${snapshots.length} stored snapshots`,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to warm price cache: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Serve the latest stored snapshots right away
+   * The initial refresh is queued as a scrape job by ScrapeJobService
    */
   async onModuleInit() {
-    this.logger.log('Initializing scraper service - performing initial scrape in background...');
-    // Don't await - let server start immediately
-    this.scrapeAll().catch((error) => {
-      this.logger.error(`Initial scrape failed: ${error.message}`);
-    });
+    await this.warmCache();
   }
 }
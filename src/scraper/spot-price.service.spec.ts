@@ -0,0 +1,52 @@
+import { SpotPriceService } from './spot-price.service';
+import { PriceRepository } from './interfaces/price-repository.interface';
+import {
+  SpotPrice,
+  SpotPriceProvider,
+} from './interfaces/spot-price.interface';
+
+describe('SpotPriceService', () => {
+  const spot = (provider: string, pricePerOunce: number): SpotPrice => ({
+    metal: 'gold',
+    pricePerOunce,
+    currency: 'EUR',
+    provider,
+    fetchedAt: new Date(),
+  });
+
+  const provider = (
+    name: string,
+    fetch: () => Promise<SpotPrice[]>,
+  ): SpotPriceProvider => ({
+    getName: () => name,
+    fetchSpotPrices: fetch,
+  });
+
+  let saveSpotPrices: jest.Mock;
+  let service: SpotPriceService;
+
+  beforeEach(() => {
+    saveSpotPrices = jest.fn().mockResolvedValue(undefined);
+    service = new SpotPriceService({
+      saveSpotPrices,
+    } as unknown as PriceRepository);
+  });
+
+  it('should prefer earlier providers and fall back when one fails', async () => {
+    service.setProviders([
+      provider('down', () => Promise.reject(new Error('timeout'))),
+      provider('primary', () => Promise.resolve([spot('primary', 2500)])),
+      provider('fixture', () => Promise.resolve([spot('fixture', 2400)])),
+    ]);
+
+    await service.refresh();
+
+    expect(service.getSpotPrice('gold')).toMatchObject({
+      provider: 'primary',
+      pricePerOunce: 2500,
+    });
+    expect(saveSpotPrices).toHaveBeenCalledWith([
+      expect.objectContaining({ provider: 'primary' }),
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { scraperConfig } from './config/scraper.config';
+import { Metal } from './interfaces/price.interface';
+import {
+  PRICE_REPOSITORY,
+  PriceRepository,
+} from './interfaces/price-repository.interface';
+import {
+  SpotPrice,
+  SpotPriceProvider,
+  SpotPriceQuery,
+} from './interfaces/spot-price.interface';
+import { HttpJsonSpotPriceProvider } from './spot-providers/http-json.provider';
+import { FileSpotPriceProvider } from './spot-providers/file.provider';
+
+@Injectable()
+export class SpotPriceService implements OnModuleInit {
+  private readonly logger = new Logger(SpotPriceService.name);
+  private cachedSpot: Map<Metal, SpotPrice> = new Map();
+  private isRefreshing = false;
+
+  private providers: SpotPriceProvider[] = this.createProviders();
+
+  constructor(
+    @Inject(PRICE_REPOSITORY)
+    private readonly priceRepository: PriceRepository,
+  ) {}
+
+  /**
+   * Build the provider chain from config, in priority order
+   */
+  private createProviders(): SpotPriceProvider[] {
+    const providers: SpotPriceProvider[] = [];
+    const { http, fixturePath } = scraperConfig.spot;
+
+    if (http.url) {
+      providers.push(
+        new HttpJsonSpotPriceProvider('http', {
+          url: http.url,
+          pricePath: http.pricePath,
+          currency: http.currency,
+          currencyPath: http.currencyPath,
+          headers: http.apiKey ? { 'x-api-key': http.apiKey } : undefined,
+        }),
+      );
+    }
+    if (fixturePath) {
+      providers.push(new FileSpotPriceProvider(fixturePath));
+    }
+
+    return providers;
+  }
+
+  /**
+   * Replace the provider chain (used for tests and custom setups)
+   */
+  setProviders(providers: SpotPriceProvider[]): void {
+    this.providers = providers;
+  }
+
+  /**
+   * Fetch spot prices from all providers and cache/persist the results
+   * Earlier providers take precedence when several return the same metal
+   */
+  async refresh(): Promise<SpotPrice[]> {
+    if (this.isRefreshing) {
+      this.logger.warn('Spot refresh already in progress, skipping...');
+      return this.getCurrentSpotPrices();
+    }
+
+    this.isRefreshing = true;
+    try {
+      const fetched = new Map<Metal, SpotPrice>();
+
+      for (const provider of this.providers) {
+        try {
+          const prices = await provider.fetchSpotPrices();
+          prices
+            .filter((price) => !fetched.has(price.metal))
+            .forEach((price) => fetched.set(price.metal, price));
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(
+            `Spot provider ${provider.getName()} failed: ${errorMessage}`,
+          );
+        }
+      }
+
+      const prices = Array.from(fetched.values());
+      prices.forEach((price) => this.cachedSpot.set(price.metal, price));
+
+      if (prices.length > 0) {
+        try {
+          await this.priceRepository.saveSpotPrices(prices);
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.error(`Failed to persist spot prices: ${errorMessage}`);
+        }
+      }
+
+      return prices;
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  /**
+   * Get the cached spot price for a metal
+   */
+  getSpotPrice(metal: Metal): SpotPrice | undefined {
+    return this.cachedSpot.get(metal);
+  }
+
+  /**
+   * Get all cached spot prices
+   */
+  getCurrentSpotPrices(): SpotPrice[] {
+    return Array.from(this.cachedSpot.values());
+  }
+
+  /**
+   * Get stored spot prices within a time range
+   */
+  getSpotHistory(query: SpotPriceQuery): Promise<SpotPrice[]> {
+    return this.priceRepository.getSpotPrices(query);
+  }
+
+  /**
+   * Scheduled task - refresh spot prices every 10 minutes
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleScheduledRefresh() {
+    if (this.providers.length === 0) return;
+    await this.refresh();
+  }
+
+  /**
+   * Load the latest stored spot prices, then refresh in the background
+   */
+  async onModuleInit() {
+    try {
+      const stored = await this.priceRepository.getLatestSpotPrices();
+      stored.forEach((price) => this.cachedSpot.set(price.metal, price));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to load stored spot prices: ${errorMessage}`);
+    }
+
+    if (this.providers.length === 0) {
+      this.logger.warn('No spot price providers configured');
+      return;
+    }
+
+    this.refresh().catch((error: Error) => {
+      this.logger.error(`Initial spot refresh failed: ${error.message}`);
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { readFile } from 'fs/promises';
+import { METALS } from '../interfaces/price.interface';
+import {
+  SpotPrice,
+  SpotPriceProvider,
+} from '../interfaces/spot-price.interface';
+
+/**
+ * Reads spot prices from a local JSON fixture, for offline use and tests
+ * Expected format: { "currency": "EUR", "gold": 2500.5, "silver": 29.8 }
+ */
+export class FileSpotPriceProvider implements SpotPriceProvider {
+  constructor(private readonly filePath: string) {}
+
+  getName(): string {
+    return 'file';
+  }
+
+  async fetchSpotPrices(): Promise<SpotPrice[]> {
+    const content = await readFile(this.filePath, 'utf8');
+    const fixture = JSON.parse(content) as Record<string, unknown>;
+    const currency =
+      typeof fixture.currency === 'string' ? fixture.currency : 'EUR';
+    const fetchedAt = new Date();
+
+    return METALS.filter((metal) => Number(fixture[metal]) > 0).map(
+      (metal) => ({
+        metal,
+        pricePerOunce: Number(fixture[metal]),
+        currency,
+        provider: this.getName(),
+        fetchedAt,
+      }),
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import axios, { AxiosInstance } from 'axios';
+import { Logger } from '@nestjs/common';
+import { scraperConfig } from '../config/scraper.config';
+import { Metal } from '../interfaces/price.interface';
+import {
+  SpotPrice,
+  SpotPriceProvider,
+} from '../interfaces/spot-price.interface';
+
+const METAL_SYMBOLS: Record<Metal, string> = {
+  gold: 'XAU',
+  silver: 'XAG',
+  platinum: 'XPT',
+  palladium: 'XPD',
+};
+
+export interface HttpJsonProviderOptions {
+  url: string; // May contain {symbol}, replaced with XAU/XAG/XPT/XPD
+  pricePath: string; // Dot path to the price in the response, e.g. 'data.price'
+  currency: string; // Currency of the prices, unless currencyPath finds one
+  currencyPath?: string; // Dot path to the currency code in the response
+  headers?: Record<string, string>;
+}
+
+/**
+ * Fetches spot prices from any JSON API that returns one metal per request
+ */
+export class HttpJsonSpotPriceProvider implements SpotPriceProvider {
+  private readonly logger = new Logger(HttpJsonSpotPriceProvider.name);
+  private readonly axiosInstance: AxiosInstance;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: HttpJsonProviderOptions,
+  ) {
+    this.axiosInstance = axios.create({
+      timeout: scraperConfig.scraping.requestTimeout,
+      headers: options.headers,
+    });
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async fetchSpotPrices(): Promise<SpotPrice[]> {
+    const metals = Object.keys(METAL_SYMBOLS) as Metal[];
+    const results = await Promise.allSettled(
+      metals.map((metal) => this.fetchMetal(metal)),
+    );
+
+    return results
+      .map((result, i) => {
+        if (result.status === 'fulfilled') return result.value;
+        const reason: unknown = result.reason;
+        this.logger.warn(
+          `Spot provider ${this.name} failed for ${metals[i]}: ${reason instanceof Error ? reason.message : String(reason)}`,
+        );
+        return null;
+      })
+      .filter((price): price is SpotPrice => price !== null);
+  }
+
+  /**
+   * Fetch a single metal and read the price at the configured path
+   */
+  private async fetchMetal(metal: Metal): Promise<SpotPrice | null> {
+    const url = this.options.url.replace('{symbol}', METAL_SYMBOLS[metal]);
+    const response = await this.axiosInstance.get<unknown>(url);
+
+    const pricePerOunce = Number(
+      this.readPath(response.data, this.options.pricePath),
+    );
+    if (!pricePerOunce || pricePerOunce <= 0) {
+      return null;
+    }
+    const currency = this.options.currencyPath
+      ? this.readPath(response.data, this.options.currencyPath)
+      : undefined;
+
+    return {
+      metal,
+      pricePerOunce,
+      currency:
+        typeof currency === 'string'
+          ? currency.toUpperCase()
+          : this.options.currency,
+      provider: this.name,
+      fetchedAt: new Date(),
+    };
+  }
+
+  private readPath(data: unknown, path: string): unknown {
+    return path
+      .split('.')
+      .reduce<unknown>(
+        (node, key) =>
+          node && typeof node === 'object'
+            ? (node as Record<string, unknown>)[key]
+            : undefined,
+        data,
+      );
+  }
+}
@@ -0,0 +1,120 @@
+import { SqlitePriceRepository } from './sqlite-price.repository';
+
+describe('SqlitePriceRepository', () => {
+  let repository: SqlitePriceRepository;
+
+  beforeEach(() => {
+    repository = new SqlitePriceRepository(':memory:');
+  });
+
+  afterEach(() => {
+    repository.onModuleDestroy();
+  });
+
+  it('should return the latest successful snapshot per vendor', async () => {
+    await repository.saveSnapshot({
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      scrapedAt: new Date('2026-01-01T10:00:00Z'),
+      prices: [{ unit: 'gram', price: 100, productTitle: '1 g' }],
+    });
+    await repository.saveSnapshot({
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      scrapedAt: new Date('2026-01-01T10:05:00Z'),
+      prices: [{ unit: 'gram', price: 101, productTitle: '1 g' }],
+    });
+    await repository.saveSnapshot({
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      scrapedAt: new Date('2026-01-01T10:10:00Z'),
+      prices: [],
+      error: 'Failed to fetch Moro',
+    });
+
+    const snapshots = await repository.getLatestSnapshots();
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].scrapedAt).toEqual(new Date('2026-01-01T10:05:00Z'));
+    expect(snapshots[0].prices).toEqual([
+      { unit: 'gram', price: 101, productTitle: '1 g' },
+    ]);
+  });
+
+  it('should move an unchanged snapshot forward instead of copying it', async () => {
+    const snapshot = {
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      prices: [{ unit: 'gram', price: 100, productTitle: '1 g' }],
+    };
+    await repository.saveSnapshot({
+      ...snapshot,
+      scrapedAt: new Date('2026-01-01T10:00:00Z'),
+    });
+    await repository.saveSnapshot({
+      ...snapshot,
+      scrapedAt: new Date('2026-01-01T10:05:00Z'),
+      notModified: true,
+    });
+
+    const snapshots = await repository.getLatestSnapshots();
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({
+      scrapedAt: new Date('2026-01-01T10:05:00Z'),
+      notModified: true,
+      prices: snapshot.prices,
+    });
+  });
+
+  it('should record a price sample for every scrape of unchanged data', async () => {
+    const snapshot = {
+      vendor: 'Moro',
+      url: 'https://www.moro.hr',
+      prices: [{ unit: 'gram', price: 100, productTitle: '1 g' }],
+    };
+    await repository.saveSnapshot({
+      ...snapshot,
+      scrapedAt: new Date('2026-01-01T10:00:00Z'),
+    });
+    await repository.saveSnapshot({
+      ...snapshot,
+      scrapedAt: new Date('2026-01-01T10:05:00Z'),
+    });
+
+    const samples = await repository.getPriceSamples({
+      from: new Date('2026-01-01T00:00:00Z'),
+      to: new Date('2026-01-02T00:00:00Z'),
+    });
+
+    expect(samples.map((sample) => sample.scrapedAt)).toEqual([
+      new Date('2026-01-01T10:00:00Z'),
+      new Date('2026-01-01T10:05:00Z'),
+    ]);
+    expect(samples.map((sample) => sample.price)).toEqual([100, 100]);
+  });
+
+  it('should prune old snapshots but keep the latest successful one', async () => {
+    const save = (time: string, price: number, error?: string) =>
+      repository.saveSnapshot({
+        vendor: 'Moro',
+        url: 'https://www.moro.hr',
+        scrapedAt: new Date(time),
+        prices: error ? [] : [{ unit: 'gram', price, productTitle: '1 g' }],
+        error,
+      });
+    await save('2026-01-01T10:00:00Z', 100);
+    await save('2026-01-01T11:00:00Z', 101);
+    await save('2026-01-01T12:00:00Z', 0, 'Timeout');
+
+    const deleted = await repository.pruneSnapshots(
+      new Date('2026-02-01T00:00:00Z'),
+    );
+    const [latest] = await repository.getLatestSnapshots();
+
+    expect(deleted).toBe(2);
+    expect(latest.prices).toEqual([
+      { unit: 'gram', price: 101, productTitle: '1 g' },
+    ]);
+  });
+});
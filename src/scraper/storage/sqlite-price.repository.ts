@@ -0,0 +1,403 @@
+import * as Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { OnModuleDestroy } from '@nestjs/common';
+import {
+  Metal,
+  PriceEntry,
+  VendorPriceData,
+} from '../interfaces/price.interface';
+import { PriceRepository } from '../interfaces/price-repository.interface';
+import {
+  PriceHistoryQuery,
+  PriceSample,
+} from '../interfaces/price-history.interface';
+import { SpotPrice, SpotPriceQuery } from '../interfaces/spot-price.interface';
+
+interface SnapshotRow {
+  id: number;
+  vendor: string;
+  url: string;
+  scraped_at: number;
+  error: string | null;
+  not_modified: number;
+}
+
+interface SampleRow {
+  vendor: string;
+  product_title: string;
+  unit: string;
+  price: number;
+  scraped_at: number;
+}
+
+interface SpotPriceRow {
+  metal: Metal;
+  price_per_ounce: number;
+  currency: string;
+  provider: string;
+  fetched_at: number;
+}
+
+interface EntryRow {
+  snapshot_id: number;
+  data: string;
+}
+
+export class SqlitePriceRepository implements PriceRepository, OnModuleDestroy {
+  private readonly db: Database.Database;
+
+  constructor(databasePath: string) {
+    if (databasePath !== ':memory:') {
+      mkdirSync(dirname(databasePath), { recursive: true });
+    }
+    this.db = new Database(databasePath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  /**
+   * Create tables and indexes if they don't exist yet
+   */
+  private migrate(): void {
+    const hasSamplesTable = this.db
+      .prepare(
+        "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'price_samples'",
+      )
+      .get();
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        vendor TEXT NOT NULL,
+        url TEXT NOT NULL,
+        scraped_at INTEGER NOT NULL,
+        error TEXT,
+        not_modified INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_snapshots_vendor_time ON snapshots (vendor, scraped_at);
+
+      CREATE TABLE IF NOT EXISTS price_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        snapshot_id INTEGER NOT NULL REFERENCES snapshots (id) ON DELETE CASCADE,
+        vendor TEXT NOT NULL,
+        scraped_at INTEGER NOT NULL,
+        unit TEXT NOT NULL,
+        product_title TEXT,
+        price REAL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_price_entries_snapshot ON price_entries (snapshot_id);
+      CREATE INDEX IF NOT EXISTS idx_price_entries_vendor_time ON price_entries (vendor, scraped_at);
+
+      CREATE TABLE IF NOT EXISTS price_samples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        vendor TEXT NOT NULL,
+        scraped_at INTEGER NOT NULL,
+        unit TEXT NOT NULL,
+        product_title TEXT NOT NULL,
+        price REAL NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_price_samples_vendor_time ON price_samples (vendor, scraped_at);
+
+      CREATE TABLE IF NOT EXISTS spot_prices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        metal TEXT NOT NULL,
+        price_per_ounce REAL NOT NULL,
+        currency TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_spot_prices_metal_time ON spot_prices (metal, fetched_at);
+    `);
+
+    // Columns added after the first release
+    const snapshotColumns = this.db
+      .prepare('PRAGMA table_info(snapshots)')
+      .all() as { name: string }[];
+    if (!snapshotColumns.some((column) => column.name === 'not_modified')) {
+      this.db.exec(
+        'ALTER TABLE snapshots ADD COLUMN not_modified INTEGER NOT NULL DEFAULT 0',
+      );
+    }
+
+    // History used to be read from price_entries, copy it over once
+    if (!hasSamplesTable) {
+      this.db.exec(`
+        INSERT INTO price_samples (vendor, scraped_at, unit, product_title, price)
+        SELECT vendor, scraped_at, unit, product_title, price FROM price_entries
+        WHERE price IS NOT NULL AND product_title IS NOT NULL
+        ORDER BY scraped_at, id
+      `);
+    }
+  }
+
+  saveSnapshot(data: VendorPriceData): Promise<void> {
+    const scrapedAt = new Date(data.scrapedAt).getTime();
+    const insertSample = this.db.prepare(
+      `INSERT INTO price_samples (vendor, scraped_at, unit, product_title, price)
+       VALUES (?, ?, ?, ?, ?)`,
+    );
+    const insertSnapshot = this.db.prepare(
+      'INSERT INTO snapshots (vendor, url, scraped_at, error, not_modified) VALUES (?, ?, ?, ?, ?)',
+    );
+    const insertEntry = this.db.prepare(
+      `INSERT INTO price_entries (snapshot_id, vendor, scraped_at, unit, product_title, price, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    // Snapshot, its entries and its history samples are written atomically
+    this.db.transaction(() => {
+      // Every successful scrape is a history sample, even when its snapshot is reused
+      if (!data.error) {
+        for (const entry of data.prices) {
+          const price = entry.price ?? entry.sellPrice;
+          if (price == null || !entry.productTitle) continue;
+          insertSample.run(
+            data.vendor,
+            scrapedAt,
+            entry.unit,
+            entry.productTitle,
+            price,
+          );
+        }
+        if (this.touchUnchangedSnapshot(data, scrapedAt)) return;
+      }
+
+      const { lastInsertRowid } = insertSnapshot.run(
+        data.vendor,
+        data.url,
+        scrapedAt,
+        data.error ?? null,
+        data.notModified ? 1 : 0,
+      );
+      for (const entry of data.prices) {
+        insertEntry.run(
+          lastInsertRowid,
+          data.vendor,
+          scrapedAt,
+          entry.unit,
+          entry.productTitle ?? null,
+          entry.price ?? entry.sellPrice ?? null,
+          JSON.stringify(entry),
+        );
+      }
+    })();
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Move the vendor's latest successful snapshot forward when its prices are unchanged,
+   * so unchanged (e.g. 304 Not Modified) scrapes don't store the same entries again
+   * Entries keep the time their prices were first seen, history samples are saved separately
+   */
+  private touchUnchangedSnapshot(
+    data: VendorPriceData,
+    scrapedAt: number,
+  ): boolean {
+    const latest = this.db
+      .prepare(
+        `SELECT id FROM snapshots
+         WHERE vendor = ? AND error IS NULL
+         ORDER BY scraped_at DESC, id DESC
+         LIMIT 1`,
+      )
+      .get(data.vendor) as { id: number } | undefined;
+    if (!latest) return false;
+
+    const entries = this.db
+      .prepare(
+        'SELECT data FROM price_entries WHERE snapshot_id = ? ORDER BY id',
+      )
+      .all(latest.id) as { data: string }[];
+    const unchanged =
+      entries.length === data.prices.length &&
+      entries.every(
+        (entry, i) => entry.data === JSON.stringify(data.prices[i]),
+      );
+    if (!unchanged) return false;
+
+    this.db
+      .prepare(
+        'UPDATE snapshots SET url = ?, scraped_at = ?, not_modified = ? WHERE id = ?',
+      )
+      .run(data.url, scrapedAt, data.notModified ? 1 : 0, latest.id);
+    return true;
+  }
+
+  pruneSnapshots(before: Date): Promise<number> {
+    const cutoff = before.getTime();
+    // The latest successful snapshot of a vendor is kept however old it is
+    const keep = `SELECT MAX(id) FROM snapshots s
+      WHERE error IS NULL AND scraped_at = (
+        SELECT MAX(scraped_at) FROM snapshots
+        WHERE vendor = s.vendor AND error IS NULL
+      )
+      GROUP BY vendor`;
+
+    const deleted = this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM price_samples WHERE scraped_at < ?')
+        .run(cutoff);
+      this.db
+        .prepare(
+          `DELETE FROM price_entries WHERE snapshot_id IN (
+             SELECT id FROM snapshots WHERE scraped_at < ? AND id NOT IN (${keep})
+           )`,
+        )
+        .run(cutoff);
+      return this.db
+        .prepare(
+          `DELETE FROM snapshots WHERE scraped_at < ? AND id NOT IN (${keep})`,
+        )
+        .run(cutoff).changes;
+    })();
+
+    return Promise.resolve(deleted);
+  }
+
+  getLatestSnapshots(): Promise<VendorPriceData[]> {
+    const snapshots = this.db
+      .prepare(
+        `SELECT s.* FROM snapshots s
+         WHERE s.error IS NULL
+           AND s.id = (
+             SELECT id FROM snapshots
+             WHERE vendor = s.vendor AND error IS NULL
+             ORDER BY scraped_at DESC, id DESC
+             LIMIT 1
+           )
+         ORDER BY s.vendor`,
+      )
+      .all() as SnapshotRow[];
+
+    return Promise.resolve(snapshots.map((row) => this.toVendorPriceData(row)));
+  }
+
+  getPriceSamples(query: PriceHistoryQuery): Promise<PriceSample[]> {
+    const conditions = ['scraped_at >= @from', 'scraped_at <= @to'];
+    const params: Record<string, string | number> = {
+      from: query.from.getTime(),
+      to: query.to.getTime(),
+    };
+    if (query.vendor) {
+      conditions.push('vendor = @vendor');
+      params.vendor = query.vendor;
+    }
+    if (query.product) {
+      conditions.push("product_title LIKE @product ESCAPE '\\'");
+      params.product = `%${query.product.replace(/[\\%_]/g, '\\$&')}%`;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT vendor, product_title, unit, price, scraped_at FROM price_samples
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY scraped_at, id`,
+      )
+      .all(params) as SampleRow[];
+
+    return Promise.resolve(
+      rows.map((row) => ({
+        vendor: row.vendor,
+        productTitle: row.product_title,
+        unit: row.unit,
+        price: row.price,
+        scrapedAt: new Date(row.scraped_at),
+      })),
+    );
+  }
+
+  saveSpotPrices(prices: SpotPrice[]): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO spot_prices (metal, price_per_ounce, currency, provider, fetched_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    );
+    this.db.transaction(() => {
+      for (const price of prices) {
+        insert.run(
+          price.metal,
+          price.pricePerOunce,
+          price.currency,
+          price.provider,
+          new Date(price.fetchedAt).getTime(),
+        );
+      }
+    })();
+
+    return Promise.resolve();
+  }
+
+  getLatestSpotPrices(): Promise<SpotPrice[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT s.* FROM spot_prices s
+         WHERE s.id = (
+           SELECT id FROM spot_prices
+           WHERE metal = s.metal
+           ORDER BY fetched_at DESC, id DESC
+           LIMIT 1
+         )`,
+      )
+      .all() as SpotPriceRow[];
+
+    return Promise.resolve(rows.map((row) => this.toSpotPrice(row)));
+  }
+
+  getSpotPrices(query: SpotPriceQuery): Promise<SpotPrice[]> {
+    const conditions = ['fetched_at >= @from', 'fetched_at <= @to'];
+    const params: Record<string, string | number> = {
+      from: query.from.getTime(),
+      to: query.to.getTime(),
+    };
+    if (query.metal) {
+      conditions.push('metal = @metal');
+      params.metal = query.metal;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM spot_prices
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY fetched_at, id`,
+      )
+      .all(params) as SpotPriceRow[];
+
+    return Promise.resolve(rows.map((row) => this.toSpotPrice(row)));
+  }
+
+  private toSpotPrice(row: SpotPriceRow): SpotPrice {
+    return {
+      metal: row.metal,
+      pricePerOunce: row.price_per_ounce,
+      currency: row.currency,
+      provider: row.provider,
+      fetchedAt: new Date(row.fetched_at),
+    };
+  }
+
+  /**
+   * Rebuild a VendorPriceData object from a snapshot row and its entries
+   */
+  private toVendorPriceData(row: SnapshotRow): VendorPriceData {
+    const entries = this.db
+      .prepare(
+        'SELECT snapshot_id, data FROM price_entries WHERE snapshot_id = ? ORDER BY id',
+      )
+      .all(row.id) as EntryRow[];
+
+    return {
+      vendor: row.vendor,
+      url: row.url,
+      scrapedAt: new Date(row.scraped_at),
+      prices: entries.map((entry) => JSON.parse(entry.data) as PriceEntry),
+      error: row.error ?? undefined,
+      notModified: row.not_modified === 1 || undefined,
+    };
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+}
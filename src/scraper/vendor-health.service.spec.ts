@@ -0,0 +1,61 @@
+import { VendorHealthService } from './vendor-health.service';
+import { VendorRegistryService } from './vendor-registry.service';
+
+describe('VendorHealthService', () => {
+  const start = new Date('2026-10-19T12:00:00Z');
+  const minutesLater = (minutes: number) =>
+    new Date(start.getTime() + minutes * 60000);
+  let service: VendorHealthService;
+
+  beforeEach(() => {
+    // No jitter, so backoff times are exact
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    service = new VendorHealthService({
+      getVendors: () => [{ id: 'moro', name: 'Moro', enabled: true }],
+    } as unknown as VendorRegistryService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const fail = (at: Date) =>
+    service.recordResult({ vendor: 'Moro', success: false, error: '403' }, at);
+
+  it('should open after repeated failures and back off exponentially', () => {
+    fail(start);
+    fail(start);
+    expect(service.getVendorHealth('moro').state).toBe('closed');
+
+    fail(start);
+    expect(service.getVendorHealth('moro')).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      nextRetryAt: minutesLater(10),
+      lastError: '403',
+    });
+    expect(service.isAvailable('moro', minutesLater(5))).toBe(false);
+
+    // The trial scrape fails, so the next pause is twice as long
+    expect(service.isAvailable('moro', minutesLater(10))).toBe(true);
+    expect(service.getVendorHealth('moro').state).toBe('half-open');
+    fail(minutesLater(10));
+    expect(service.getVendorHealth('moro').nextRetryAt).toEqual(
+      minutesLater(30),
+    );
+  });
+
+  it('should close again after a successful scrape', () => {
+    [0, 1, 2].forEach(() => fail(start));
+    service.isAvailable('moro', minutesLater(10));
+    service.recordResult({ vendor: 'moro', success: true }, minutesLater(11));
+
+    expect(service.getHealth()).toEqual([
+      {
+        vendor: 'moro',
+        state: 'closed',
+        consecutiveFailures: 0,
+        lastAttemptAt: minutesLater(11),
+        lastSuccessAt: minutesLater(11),
+      },
+    ]);
+  });
+});
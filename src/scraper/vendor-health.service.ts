@@ -0,0 +1,115 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { scraperConfig } from './config/scraper.config';
+import { getBackoffDelay } from './http/backoff';
+import { ScraperResult } from './interfaces/price.interface';
+import { VendorHealth } from './interfaces/vendor-health.interface';
+import { VendorRegistryService } from './vendor-registry.service';
+
+@Injectable()
+export class VendorHealthService {
+  private readonly logger = new Logger(VendorHealthService.name);
+  private health: Map<string, VendorHealth> = new Map();
+  private openCount: Map<string, number> = new Map(); // Failed trials since the circuit opened
+
+  constructor(private readonly vendorRegistry: VendorRegistryService) {}
+
+  /**
+   * Health of every enabled vendor
+   */
+  getHealth(): VendorHealth[] {
+    return this.vendorRegistry
+      .getVendors()
+      .filter((vendor) => vendor.enabled)
+      .map((vendor) => this.getVendorHealth(vendor.id));
+  }
+
+  getVendorHealth(vendor: string): VendorHealth {
+    return (
+      this.health.get(vendor) ?? {
+        vendor,
+        state: 'closed',
+        consecutiveFailures: 0,
+      }
+    );
+  }
+
+  /**
+   * Check if a vendor may be scraped; an open circuit turns half-open once its backoff is over
+   */
+  isAvailable(vendor: string, now = new Date()): boolean {
+    const health = this.getVendorHealth(vendor);
+    if (health.state !== 'open') return true;
+    if (health.nextRetryAt && now < health.nextRetryAt) return false;
+
+    this.health.set(vendor, { ...health, state: 'half-open' });
+    this.logger.log(
+      `Circuit of ${vendor} is half-open, allowing a trial scrape`,
+    );
+    return true;
+  }
+
+  /**
+   * Update a vendor's circuit from a scrape result (vendor ID or display name)
+   */
+  recordResult(result: ScraperResult, now = new Date()): void {
+    const vendor = this.resolveVendorId(result.vendor);
+    const health = this.getVendorHealth(vendor);
+
+    if (result.success) {
+      if (health.state !== 'closed') {
+        this.logger.log(
+          `Circuit of ${vendor} closed after a successful scrape`,
+        );
+      }
+      this.health.set(vendor, {
+        vendor,
+        state: 'closed',
+        consecutiveFailures: 0,
+        lastAttemptAt: now,
+        lastSuccessAt: now,
+      });
+      this.openCount.delete(vendor);
+      return;
+    }
+
+    const { failureThreshold, openMinutes, maxOpenMinutes } =
+      scraperConfig.scraping.circuitBreaker;
+    const failed: VendorHealth = {
+      ...health,
+      consecutiveFailures: health.consecutiveFailures + 1,
+      lastError: result.error,
+      lastErrorDetails: result.errorDetails,
+      lastAttemptAt: now,
+    };
+    const shouldOpen =
+      health.state === 'half-open' ||
+      (health.state === 'closed' &&
+        failed.consecutiveFailures >= failureThreshold);
+
+    if (shouldOpen) {
+      const openCount = this.openCount.get(vendor) ?? 0;
+      this.openCount.set(vendor, openCount + 1);
+      const backoff = getBackoffDelay(
+        openMinutes * 60000,
+        openCount,
+        maxOpenMinutes * 60000,
+      );
+      failed.state = 'open';
+      failed.openedAt = now;
+      failed.nextRetryAt = new Date(now.getTime() + backoff);
+      this.logger.warn(
+        `Circuit of ${vendor} opened after ${failed.consecutiveFailures} failures, retrying at ${failed.nextRetryAt.toISOString()}`,
+      );
+    }
+    this.health.set(vendor, failed);
+  }
+
+  private resolveVendorId(vendor: string): string {
+    return (
+      this.vendorRegistry
+        .getVendors()
+        .find((info) => info.id === vendor || info.name === vendor)?.id ??
+      vendor
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { join } from 'path';
+import { VendorRegistryService } from './vendor-registry.service';
+import { scraperConfig } from './config/scraper.config';
+
+describe('VendorRegistryService', () => {
+  let service: VendorRegistryService;
+
+  beforeEach(() => {
+    service = new VendorRegistryService();
+    service.onModuleInit();
+  });
+
+  it('should register every parser with a stable vendor ID', () => {
+    expect(service.getVendors().map((vendor) => vendor.id)).toEqual([
+      'gvs-croatia',
+      'plemenit',
+      'moro',
+      'centar-zlata',
+      'elementum',
+    ]);
+  });
+
+  it('should only create parsers for enabled vendors with sources', () => {
+    service.configure({ moro: { enabled: false } });
+
+    expect(
+      service.getEnabledParsers().map((parser) => parser.getVendorName()),
+    ).toEqual(['GVS Croatia', 'Plemenit', 'Centar Zlata']);
+    expect(service.findParser('moro')).toBeUndefined();
+  });
+
+  it('should keep vendors registered as disabled off unless config enables them', () => {
+    service.loadShops(join(__dirname, 'parsers/fixtures/shops'));
+
+    expect(service.getVendors().map((vendor) => vendor.id)).toContain(
+      'example-shop',
+    );
+    expect(service.findParser('example-shop')).toBeUndefined();
+
+    service.configure({ 'example-shop': { enabled: true } });
+
+    expect(service.findParser('example-shop')?.getVendorName()).toBe(
+      'Example Shop',
+    );
+  });
+
+  it('should leave out unconfirmed default sources unless they are included', () => {
+    const gvsSources = () =>
+      service
+        .getVendors()
+        .find((vendor) => vendor.id === 'gvs-croatia')
+        ?.sources.map((source) => source.url);
+
+    expect(gvsSources()).toEqual([
+      'https://www.zlatosrebro.hr/kupnja/cijene-zlatnih-poluga.html',
+    ]);
+
+    const replaced = jest.replaceProperty(
+      scraperConfig.scraping,
+      'includeUnconfirmedSources',
+      true,
+    );
+    service.configure({});
+    replaced.restore();
+
+    expect(gvsSources()).toHaveLength(5);
+  });
+
+  it('should find vendors by ID or display name', () => {
+    expect(service.findParser('gvs-croatia')?.getVendorName()).toBe(
+      'GVS Croatia',
+    );
+    expect(service.findParser('GVS Croatia')?.getVendorName()).toBe(
+      'GVS Croatia',
+    );
+  });
+});
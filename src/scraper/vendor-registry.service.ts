@@ -0,0 +1,115 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { scraperConfig } from './config/scraper.config';
+import { BaseParser } from './parsers/base.parser';
+import {
+  getRegisteredParsers,
+  RegisteredParser,
+} from './parsers/parser.registry';
+import { loadShopParsers } from './parsers/declarative.parser';
+import { VendorConfig, VendorInfo } from './interfaces/vendor-config.interface';
+// Parsers register themselves on import
+import './parsers/gvs-croatia.parser';
+import './parsers/plemenit.parser';
+import './parsers/moro.parser';
+import './parsers/centar-zlata.parser';
+import './parsers/elementum.parser';
+
+interface Vendor extends VendorInfo {
+  parser?: BaseParser; // Only created for enabled vendors
+}
+
+@Injectable()
+export class VendorRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(VendorRegistryService.name);
+  private shopParsers: RegisteredParser[] = []; // From declarative shop definitions
+  private vendors: Vendor[] = this.createVendors(scraperConfig.vendors);
+
+  /**
+   * Resolve registered parsers against the vendor config
+   * Vendors missing from config use their default sources and are enabled unless registered as disabled
+   * Unconfirmed default sources are left out unless scraping.includeUnconfirmedSources is set
+   */
+  private createVendors(
+    config: Record<string, VendorConfig | undefined>,
+  ): Vendor[] {
+    const registrations = [...getRegisteredParsers(), ...this.shopParsers];
+    return registrations.map(({ create, ...registration }) => {
+      const vendorConfig = config[registration.id];
+      const sources =
+        vendorConfig?.sources ??
+        registration.sources.filter(
+          (source) =>
+            !source.unconfirmed ||
+            scraperConfig.scraping.includeUnconfirmedSources,
+        );
+      let enabled = vendorConfig?.enabled ?? registration.enabled ?? true;
+
+      if (enabled && sources.length === 0) {
+        this.logger.warn(
+          `Vendor ${registration.id} has no sources configured, disabling it`,
+        );
+        enabled = false;
+      }
+
+      return {
+        ...registration,
+        sources,
+        enabled,
+        parser: enabled ? create(registration.name, sources) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Load declarative shops from a directory, replacing earlier ones, and re-resolve vendors
+   */
+  loadShops(directory: string): void {
+    this.shopParsers = loadShopParsers(directory);
+    this.vendors = this.createVendors(scraperConfig.vendors);
+  }
+
+  /**
+   * Shops are loaded before the services that read vendors in their own onModuleInit,
+   * as VendorRegistryService is provided first in ScraperModule
+   */
+  onModuleInit() {
+    this.loadShops(scraperConfig.shops.definitionsDir);
+  }
+
+  /**
+   * Re-resolve vendors from a different config (used for tests and custom setups)
+   */
+  configure(config: Record<string, VendorConfig | undefined>): void {
+    this.vendors = this.createVendors(config);
+  }
+
+  /**
+   * All registered vendors with their resolved config
+   */
+  getVendors(): VendorInfo[] {
+    return this.vendors.map((vendor) => ({
+      id: vendor.id,
+      name: vendor.name,
+      sources: vendor.sources,
+      capabilities: vendor.capabilities,
+      enabled: vendor.enabled,
+    }));
+  }
+
+  /**
+   * Parsers of all enabled vendors
+   */
+  getEnabledParsers(): BaseParser[] {
+    return this.vendors.flatMap((vendor) =>
+      vendor.parser ? [vendor.parser] : [],
+    );
+  }
+
+  /**
+   * Find the parser of an enabled vendor by vendor ID or display name
+   */
+  findParser(vendor: string): BaseParser | undefined {
+    return this.vendors.find((v) => v.id === vendor || v.name === vendor)
+      ?.parser;
+  }
+}